@@ -0,0 +1,219 @@
+/**
+ * Helpers of the command line interface (bin/json2ts.js) that do not depend on the converters:
+ * merging the settings, comparing the generated code with the output files and matching glob patterns.
+ */
+
+const path = require('node:path');
+const fs = require('node:fs');
+
+/**
+ * Exit code of --check when an output is out of date, distinct from the exit code 1 of errors
+ * @type {number}
+ */
+const EXIT_OUTDATED = 2;
+
+/**
+ * Removes the properties holding undefined, e.g. options not given on the command line
+ * @param {object} object - The object to filter
+ * @returns {object} A copy of the object without undefined properties
+ */
+function withoutUndefined (object) {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Merges conversion settings (see the CliConfig type), later sources override earlier ones.
+ * The type maps and formatting options of the sources are merged as well.
+ * @param {...object} sources - The settings, e.g. of the config file and the command line flags
+ * @returns {{ name: string, export: string, format: string, flat: boolean, fromSchema: boolean, output?: string, options: object }} The merged settings
+ */
+function mergeSettings (...sources) {
+  return sources.reduce((settings, { options = {}, ...source }) => ({
+    ...settings,
+    ...withoutUndefined(source),
+    options: {
+      ...settings.options,
+      ...options,
+      typeMap: { ...settings.options.typeMap, ...options.typeMap },
+      formatting: { ...settings.options.formatting, ...options.formatting },
+    },
+  }), { name: 'RootObject', export: 'root', format: 'ts', flat: false, fromSchema: false, options: {} });
+}
+
+/**
+ * Creates a unified diff of two texts, with three lines of context around each change
+ * @param {string} before - The original text
+ * @param {string} after - The changed text
+ * @param {string} file - The name of the file in the diff header
+ * @returns {string} The unified diff, empty if the texts are equal
+ */
+function toUnifiedDiff (before, after, file) {
+  const toLines = text => text === '' ? [] : text.replace(/\n$/, '').split('\n');
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // Only the lines between the common prefix and suffix are compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++;
+  }
+
+  const x = a.slice(start, a.length - end);
+  const y = b.slice(start, b.length - end);
+  const lengths = Array.from({ length: x.length + 1 }, () => new Uint32Array(y.length + 1));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lengths[i][j] = x[i] === y[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  /** @type {[string, string][]} The lines of both texts, marked as kept (' '), removed ('-') or added ('+') */
+  const lines = a.slice(0, start).map(line => [' ', line]);
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      lines.push([' ', x[i++]]);
+      j++;
+    } else if (j === y.length || (i < x.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push(['-', x[i++]]);
+    } else {
+      lines.push(['+', y[j++]]);
+    }
+  }
+  lines.push(...a.slice(a.length - end).map(line => [' ', line]));
+
+  const context = 3;
+  const changes = lines.flatMap(([mark], index) => mark === ' ' ? [] : [index]);
+  const hunks = [];
+  for (const index of changes) {
+    const hunk = hunks[hunks.length - 1];
+    if (hunk && index - hunk.last <= context * 2) {
+      hunk.last = index;
+    } else {
+      hunks.push({ first: index, last: index });
+    }
+  }
+
+  const output = hunks.length ? [`--- ${file}`, `+++ ${file} (generated)`] : [];
+  for (const { first, last } of hunks) {
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length, last + context + 1);
+    const preceding = lines.slice(0, from);
+    const body = lines.slice(from, to);
+    const count = marks => body.filter(([mark]) => marks.includes(mark)).length;
+    const position = (marks, length) => preceding.filter(([mark]) => marks.includes(mark)).length + (length ? 1 : 0);
+    const oldCount = count(' -');
+    const newCount = count(' +');
+
+    output.push(`@@ -${position(' -', oldCount)},${oldCount} +${position(' +', newCount)},${newCount} @@`);
+    output.push(...body.map(([mark, line]) => `${mark}${line}`));
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Compares generated code with the content of an output file
+ * @param {string} file - The path of the output file
+ * @param {string} code - The generated code
+ * @returns {string|null} A unified diff of the file and the code, or null if the file is up to date
+ */
+function checkOutput (file, code) {
+  const current = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+
+  return current === code ? null : toUnifiedDiff(current, code, path.relative(process.cwd(), file));
+}
+
+/**
+ * Resolves the exit code of a run converting (or checking) several entries
+ * @param {{ failed: number, outdated: number }} result - The number of failed entries and of outputs that are out of date
+ * @returns {number} 1 if any entry failed, EXIT_OUTDATED if any output is out of date, 0 otherwise
+ */
+function toExitCode ({ failed, outdated }) {
+  return failed ? 1 : outdated ? EXIT_OUTDATED : 0;
+}
+
+/**
+ * Splits a glob pattern (supporting `*`, `?` and `**`) into its base directory
+ * and a matcher of the paths relative to it.
+ * @param {string} pattern - The file path or glob pattern
+ * @returns {{ baseDir: string, matcher: RegExp } | null} The parsed pattern, or null if it has no wildcards
+ */
+function parseGlob (pattern) {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex(segment => /[*?]/.test(segment));
+
+  if (index === -1) {
+    return null;
+  }
+
+  const source = segments.slice(index).join('/')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\0')
+    .replace(/\*\*/g, '.*')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\0/g, '(?:.*/)?');
+
+  return {
+    baseDir: segments.slice(0, index).join('/') || (pattern.startsWith('/') ? '/' : '.'),
+    matcher: new RegExp(`^${source}$`),
+  };
+}
+
+/**
+ * Expands a glob pattern (supporting `*`, `?` and `**`) into matching file paths.
+ * Patterns without wildcards are returned as-is.
+ * @param {string} pattern - The file path or glob pattern
+ * @returns {string[]} The matching file paths, sorted alphabetically
+ */
+function expandGlob (pattern) {
+  const glob = parseGlob(pattern);
+
+  if (!glob) {
+    return [pattern];
+  }
+  if (!fs.existsSync(glob.baseDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(glob.baseDir, { recursive: true, encoding: 'utf-8' })
+    .map(entry => entry.split(path.sep).join('/'))
+    .filter(entry => glob.matcher.test(entry) && fs.statSync(path.join(glob.baseDir, entry)).isFile())
+    .sort()
+    .map(entry => path.join(glob.baseDir, entry));
+}
+
+/**
+ * Checks whether a file path matches a file path or glob pattern
+ * @param {string} file - The file path
+ * @param {string} pattern - The file path or glob pattern
+ * @returns {boolean} True if the file matches the pattern
+ */
+function matchesGlob (file, pattern) {
+  const glob = parseGlob(pattern);
+
+  if (!glob) {
+    return path.resolve(file) === path.resolve(pattern);
+  }
+
+  const relative = path.relative(glob.baseDir, file);
+  return !relative.startsWith('..') && glob.matcher.test(relative.split(path.sep).join('/'));
+}
+
+module.exports = {
+  EXIT_OUTDATED,
+  withoutUndefined,
+  mergeSettings,
+  toUnifiedDiff,
+  checkOutput,
+  toExitCode,
+  parseGlob,
+  expandGlob,
+  matchesGlob,
+};
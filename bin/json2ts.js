@@ -10,10 +10,74 @@
 const path = require('node:path');
 const fs = require('node:fs');
 const yargs = require('yargs');
+const { pathToFileURL } = require('node:url');
 const { hideBin } = require('yargs/helpers');
 
 // classes
-const { JsonToTsConverter, JsonToFlattenedTsConverter } = require('../index.js');
+const { JsonToTsConverter, JsonToFlattenedTsConverter, JsonToJsonSchemaConverter, JsonToZodConverter, ConverterUtils, ConversionError } = require('../index.js');
+
+// utils
+const { EXIT_OUTDATED, withoutUndefined, mergeSettings, checkOutput, toExitCode, parseGlob, expandGlob, matchesGlob } = require('./cli-utils.js');
+
+/**
+ * Names of the config files looked up in each directory, in order of precedence
+ * @type {string[]}
+ */
+const CONFIG_FILES = ['json2ts.config.json', '.json2tsrc', 'json2ts.config.js', 'package.json'];
+
+/**
+ * Milliseconds to wait for further changes before converting the changed input in watch mode
+ * @type {number}
+ */
+const WATCH_DELAY = 100;
+
+/**
+ * Glob patterns of the JSON, JSONC and JSON5 files converted in directory mode
+ * @type {string[]}
+ */
+const DIRECTORY_PATTERNS = ['**/*.json', '**/*.jsonc', '**/*.json5'];
+
+/**
+ * Expected values of the converter options of config files and manifest entries (see the ConvertOptions type):
+ * the type of the value, and/or the values allowed
+ * @type {Record<string, { type?: string, values?: any[] }>}
+ */
+const OPTION_VALUES = {
+  arrayMaxTupleSize: { type: 'number' },
+  arrayMinTupleSize: { type: 'number' },
+  strict: { type: 'boolean' },
+  typeMap: { type: 'object' },
+  propertyCase: { values: ['camel', 'lower_snake', 'original', 'pascal', 'upper_snake', 'kebab'] },
+  readonlyProperties: { type: 'boolean' },
+  optionalProperties: { type: 'boolean' },
+  namingStrategy: { values: ['parent', 'numeric'] },
+  dedupeInterfaces: { values: ['none', 'reference', 'alias'] },
+  typeGuards: { type: 'boolean' },
+  detectFormats: { type: 'boolean' },
+  formatTypes: { type: 'object' },
+  declarationStyle: { values: ['interface', 'type'] },
+  emitter: { type: 'object' },
+  emitMode: { values: ['template', 'factory'] },
+  formatting: { type: 'object' },
+  enumStyle: { values: ['none', 'union', 'enum', 'const'] },
+  enumThreshold: { type: 'number' },
+  errorMode: { values: ['log', 'throw'] },
+  logger: { type: 'object' },
+  syntax: { values: ['json', 'jsonc', 'json5'] },
+};
+
+/**
+ * Expected values of the formatting options (see the FormattingOptions type), like OPTION_VALUES
+ * @type {Record<string, { type?: string, values?: any[] }>}
+ */
+const FORMATTING_VALUES = {
+  indent: { type: 'number', values: ['tab'] },
+  memberSeparator: { values: ['semicolon', 'comma', 'none'] },
+  quoteStyle: { values: ['double', 'single'] },
+  trailingNewline: { type: 'boolean' },
+  blankLines: { type: 'number' },
+  declarationOrder: { values: ['appearance', 'alphabetical', 'dependency'] },
+};
 
 /**
  * Command line arguments configuration using yargs
@@ -26,8 +90,9 @@ const argv = yargs(hideBin(process.argv))
   .version('0.0.5')
   .usage('Usage: json2ts -f input.json -o output.ts')
   .option('file', {
-    description: 'Path to the JSON file to be converted to TypeScript interfaces',
+    description: 'Path(s) or glob pattern(s) of JSON files to be converted. Multiple files are treated as samples of the same structure',
     type: 'string',
+    array: true,
     alias: 'f',
   })
   .option('text', {
@@ -35,28 +100,135 @@ const argv = yargs(hideBin(process.argv))
     type: 'string',
     alias: 't',
   })
+  .option('from-schema', {
+    description: 'Treat the input as a JSON Schema document instead of a JSON sample',
+    type: 'boolean',
+    alias: 'fs',
+  })
   .option('output', {
     description: 'Path where the generated TypeScript interface file will be saved',
     type: 'string',
     alias: 'o',
   })
   .option('name', {
-    description: 'Name for the root TypeScript interface (default: RootObject)',
+    description: 'Name for the root TypeScript interface',
     type: 'string',
+    defaultDescription: 'RootObject',
     alias: 'n',
   })
   .option('export', {
     description: 'Export type for generated interfaces: "a" (all: default), "r" (root), or "n" (none)',
     type: 'string',
     choices: ['a', 'r', 'n'],
+    defaultDescription: 'r',
     alias: 'e',
   })
   .option('property-case', {
     description: 'Transform property names to a specific case format. Options:\n - c (camelCase)\n - l (lower_snake_case)\n - o (preserve original)\n - p (PascalCase)\n - u (UPPER_SNAKE_CASE)\n - k (kebab-case)',
     type: 'string',
     choices: ['c', 'l', 'o', 'p', 'u', 'k'],
+    defaultDescription: 'o',
     alias: 'pc',
   })
+  .option('naming-strategy', {
+    description: 'Naming strategy for nested interfaces whose name collides with a different shape:\n - p (prefix with parent name, e.g. CompanyAddress)\n - n (numeric suffix, e.g. Address2)',
+    type: 'string',
+    choices: ['p', 'n'],
+    defaultDescription: 'p',
+    alias: 'ns',
+  })
+  .option('dedupe', {
+    description: 'Deduplicate structurally identical interfaces:\n - n (none)\n - r (reference one canonical interface)\n - a (emit type aliases of the canonical interface)',
+    type: 'string',
+    choices: ['n', 'r', 'a'],
+    defaultDescription: 'n',
+    alias: 'd',
+  })
+  .option('format', {
+    description: 'Output format:\n - ts (TypeScript interfaces)\n - json-schema (JSON Schema draft 2020-12)\n - zod (Zod schemas with inferred types)',
+    type: 'string',
+    choices: ['ts', 'json-schema', 'zod'],
+    defaultDescription: 'ts',
+    alias: 'fmt',
+  })
+  .option('type-map', {
+    description: 'Custom type for a JSON key path, wildcard path or property name, as "path=Type" (e.g. "items[].createdAt=ISODateString", "**.uuid=Uuid")',
+    type: 'string',
+    array: true,
+    alias: 'tm',
+  })
+  .option('string-formats', {
+    description: 'Detect string formats (dates, UUIDs, emails, URLs, IP addresses, numeric strings) and type them as:\n - s (string)\n - d (Date for dates, string otherwise)\n - b (branded strings, e.g. string & { __brand: \'Uuid\' })\n - t (template literal types)',
+    type: 'string',
+    choices: ['s', 'd', 'b', 't'],
+    alias: 'sf',
+  })
+  .option('declaration-style', {
+    description: 'Declaration keyword of the generated object types:\n - i (interface User { ... })\n - t (type User = { ... };)',
+    type: 'string',
+    choices: ['i', 't'],
+    defaultDescription: 'i',
+    alias: 'ds',
+  })
+  .option('enum-style', {
+    description: 'Type string properties holding a few repeated values as:\n - n (plain string)\n - u (string-literal union)\n - e (TypeScript enum)\n - c (as const object)',
+    type: 'string',
+    choices: ['n', 'u', 'e', 'c'],
+    defaultDescription: 'n',
+    alias: 'es',
+  })
+  .option('enum-threshold', {
+    description: 'Maximum number of distinct values typed according to --enum-style',
+    type: 'number',
+    alias: 'et',
+  })
+  .option('emit-mode', {
+    description: 'How the TypeScript output is built:\n - t (string templates)\n - f (TypeScript compiler factory API and printer)',
+    type: 'string',
+    choices: ['t', 'f'],
+    defaultDescription: 't',
+    alias: 'em',
+  })
+  .option('syntax', {
+    description: 'Syntax of the JSON input:\n - json (strict JSON)\n - jsonc (JSON with comments and trailing commas)\n - json5 (JSON5)',
+    type: 'string',
+    choices: ['json', 'jsonc', 'json5'],
+    defaultDescription: 'detected from the file extension (.jsonc, .json5), json otherwise',
+    alias: 'sx',
+  })
+  .option('quote-style', {
+    description: 'Quotes of string literal types and quoted property names:\n - d (double)\n - s (single)',
+    type: 'string',
+    choices: ['d', 's'],
+    defaultDescription: 'd',
+    alias: 'qs',
+  })
+  .option('indent', {
+    description: 'Spaces per indentation level, or "tab"',
+    type: 'string',
+    defaultDescription: '2',
+    alias: 'in',
+  })
+  .option('member-separator', {
+    description: 'Separator after each interface member:\n - s (semicolon)\n - c (comma)\n - n (none, statements without semicolons too)',
+    type: 'string',
+    choices: ['s', 'c', 'n'],
+    defaultDescription: 's',
+    alias: 'ms',
+  })
+  .option('blank-lines', {
+    description: 'Number of blank lines between declarations',
+    type: 'number',
+    defaultDescription: '1',
+    alias: 'bl',
+  })
+  .option('declaration-order', {
+    description: 'Order of the generated declarations:\n - a (root first, order of appearance)\n - n (root first, sorted by name)\n - d (dependencies first, root last)',
+    type: 'string',
+    choices: ['a', 'n', 'd'],
+    defaultDescription: 'a',
+    alias: 'do',
+  })
   .option('flat', {
     description: 'Generate a single flattened interface instead of multiple interfaces',
     type: 'boolean',
@@ -72,17 +244,49 @@ const argv = yargs(hideBin(process.argv))
     type: 'boolean',
     alias: 'r',
   })
+  .option('guards', {
+    description: 'Generate a runtime type-guard function (e.g. isUser) alongside each interface',
+    type: 'boolean',
+    alias: 'g',
+  })
   .option('optional', {
     description: 'Make all generated properties optional',
     type: 'boolean',
     alias: 'op',
   })
+  .option('config', {
+    description: 'Path of a config file with default settings. Without it, json2ts.config.json, .json2tsrc, json2ts.config.js or the "json2ts" key of package.json is looked up from the working directory upwards',
+    type: 'string',
+    alias: 'c',
+  })
+  .option('dir', {
+    description: 'Directory of JSON files to convert, each into its own file of --out-dir with the root named after the file',
+    type: 'string',
+    alias: 'di',
+  })
+  .option('out-dir', {
+    description: 'Directory the files converted from --dir are written to, mirroring its sub-directories, along with an index.ts barrel',
+    type: 'string',
+    alias: 'od',
+  })
+  .option('watch', {
+    description: 'Keep running and convert the input of --file, --dir or --manifest again whenever it changes',
+    type: 'boolean',
+    alias: 'w',
+  })
+  .option('check', {
+    description: `Compare the generated code with the existing output files instead of writing them, printing a diff and exiting with code ${EXIT_OUTDATED} if any of them is out of date`,
+    type: 'boolean',
+    alias: 'ch',
+  })
+  .option('manifest', {
+    description: 'Path of a manifest file listing the conversions to run, each with its input path(s) or glob pattern(s), output path, root name and option overrides',
+    type: 'string',
+    alias: 'm',
+  })
   .default({
     file: null,
     text: null,
-    name: 'RootObject',
-    'export': 'r',
-    'property-case': 'o',
     output: null,
   })
   .showHelpOnFail(true, 'Use --help for usage')
@@ -124,6 +328,135 @@ function toCaseType (alias) {
   }
 }
 
+/**
+ * Converts naming strategy character to full string representation
+ * @param {string} alias - The naming strategy character ('p' or 'n')
+ * @returns {'parent' | 'numeric'} The full naming strategy string
+ */
+function toNamingStrategy (alias) {
+  return alias === 'n' ? 'numeric' : 'parent';
+}
+
+/**
+ * Converts dedupe strategy character to full string representation
+ * @param {string} alias - The dedupe strategy character ('n', 'r' or 'a')
+ * @returns {'none' | 'reference' | 'alias'} The full dedupe strategy string
+ */
+function toDedupeStrategy (alias) {
+  switch (alias) {
+    case 'r':
+      return 'reference';
+    case 'a':
+      return 'alias';
+    default:
+      return 'none';
+  }
+}
+
+/**
+ * Converts format type character to the type of every detected string format
+ * @param {string} alias - The format type character ('s', 'd', 'b' or 't')
+ * @returns {Record<string, 'string' | 'date' | 'branded' | 'template'>} The format types, keyed by string format
+ */
+function toFormatTypes (alias) {
+  const types = { s: 'string', d: 'date', b: 'branded', t: 'template' };
+  const formats = ['date', 'date-time', 'uuid', 'email', 'uri', 'ipv4', 'ipv6', 'numeric'];
+  return Object.fromEntries(formats.map(format => [format, types[alias] ?? 'string']));
+}
+
+/**
+ * Converts declaration style character to full string representation
+ * @param {string} alias - The declaration style character ('i' or 't')
+ * @returns {'interface' | 'type'} The full declaration style string
+ */
+function toDeclarationStyle (alias) {
+  return alias === 't' ? 'type' : 'interface';
+}
+
+/**
+ * Converts enum style character to full string representation
+ * @param {string} alias - The enum style character ('n', 'u', 'e' or 'c')
+ * @returns {'none' | 'union' | 'enum' | 'const'} The full enum style string
+ */
+function toEnumStyle (alias) {
+  switch (alias) {
+    case 'u':
+      return 'union';
+    case 'e':
+      return 'enum';
+    case 'c':
+      return 'const';
+    default:
+      return 'none';
+  }
+}
+
+/**
+ * Builds the formatting options given on the command line
+ * @param {object} args - The parsed command line arguments
+ * @returns {{ indent?: number | 'tab', quoteStyle?: 'double' | 'single', memberSeparator?: string, blankLines?: number, declarationOrder?: string }} The formatting options
+ */
+function toFormattingOptions (args) {
+  const formatting = {};
+  if (args.indent !== undefined) {
+    const indent = String(args.indent);
+    const size = Number.parseInt(indent, 10);
+    if (indent !== 'tab' && !(size >= 0)) {
+      throw new Error(`Invalid --indent value "${indent}", expected a number of spaces or "tab"`);
+    }
+    formatting.indent = indent === 'tab' ? 'tab' : size;
+  }
+  if (args['blank-lines'] !== undefined) {
+    if (!(args['blank-lines'] >= 0)) {
+      throw new Error(`Invalid --blank-lines value "${args['blank-lines']}", expected a number`);
+    }
+    formatting.blankLines = args['blank-lines'];
+  }
+  if (args['quote-style'] !== undefined) {
+    formatting.quoteStyle = args['quote-style'] === 's' ? 'single' : 'double';
+  }
+  if (args['member-separator'] !== undefined) {
+    formatting.memberSeparator = { c: 'comma', n: 'none' }[args['member-separator']] ?? 'semicolon';
+  }
+  if (args['declaration-order'] !== undefined) {
+    formatting.declarationOrder = { n: 'alphabetical', d: 'dependency' }[args['declaration-order']] ?? 'appearance';
+  }
+  return formatting;
+}
+
+/**
+ * Converts "path=Type" entries into a type map
+ * @param {string[]} entries - The type map entries
+ * @returns {Record<string, string>} The type map, keyed by JSON key path or property name
+ */
+function toTypeMap (entries) {
+  const typeMap = {};
+  for (const entry of entries) {
+    const index = entry.indexOf('=');
+    if (index < 1 || index === entry.length - 1) {
+      throw new Error(`Invalid --type-map entry "${entry}", expected "path=Type"`);
+    }
+    typeMap[entry.slice(0, index).trim()] = entry.slice(index + 1).trim();
+  }
+  return typeMap;
+}
+
+/**
+ * Resolves the converter class for the requested output format
+ * @param {string} format - The output format ('ts', 'json-schema' or 'zod')
+ * @param {boolean} flat - Whether to generate a single flattened interface (TypeScript only)
+ * @returns {typeof JsonToTsConverter} The converter class
+ */
+function toConverter (format, flat) {
+  if (format === 'json-schema') {
+    return JsonToJsonSchemaConverter;
+  }
+  if (format === 'zod') {
+    return JsonToZodConverter;
+  }
+  return flat ? JsonToFlattenedTsConverter : JsonToTsConverter;
+}
+
 /**
  * Converts export type character to full string representation
  * @param {string} type - The export type character ('a', 'r', or 'n')
@@ -140,6 +473,530 @@ function toExportType (type) {
   }
 }
 
+/**
+ * Finds the config file in the given directory or the closest parent directory.
+ * A package.json file only counts if it holds a "json2ts" key.
+ * @param {string} dir - The directory to start looking in
+ * @returns {string|null} The path of the config file, or null if there is none
+ */
+function findConfigFile (dir) {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const file = CONFIG_FILES
+      .map(name => path.join(current, name))
+      .find(file => fs.existsSync(file)
+        && (path.basename(file) !== 'package.json' || Object.hasOwn(JSON.parse(fs.readFileSync(file, 'utf-8')), 'json2ts')));
+
+    if (file) {
+      return file;
+    }
+    if (path.dirname(current) === current) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Reads a config or manifest file. JavaScript files are imported, any other file is parsed as JSON,
+ * package.json files provide their "json2ts" key.
+ * @param {string} file - The path of the file
+ * @param {string} kind - The kind of file, used in error messages ('config' or 'manifest')
+ * @returns {Promise<any>} The contents of the file
+ */
+async function readSettingsFile (file, kind) {
+  try {
+    if (/\.[cm]?js$/.test(file)) {
+      const module = await import(pathToFileURL(path.resolve(file)).href);
+      return module.default ?? module;
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return path.basename(file) === 'package.json' ? data.json2ts : data;
+  } catch (error) {
+    throw new Error(`Unable to read ${kind} file ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param {any} value - The value to check
+ * @returns {boolean} True if the value is an object other than null or an array
+ */
+function isObject (value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates the settings of a config file or manifest entry (see the CliConfig type)
+ * @param {any} settings - The settings to validate
+ * @param {(message: string) => Error} invalid - Creates the error thrown for invalid settings
+ */
+function validateSettings (settings, invalid) {
+  if (!isObject(settings)) {
+    throw invalid('expected an object');
+  }
+  for (const key of ['name', 'output']) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'string') {
+      throw invalid(`"${key}" must be a string`);
+    }
+  }
+  for (const key of ['flat', 'fromSchema']) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'boolean') {
+      throw invalid(`"${key}" must be a boolean`);
+    }
+  }
+  if (settings.export !== undefined && !['all', 'root', 'none'].includes(settings.export)) {
+    throw invalid('"export" must be one of "all", "root" or "none"');
+  }
+  if (settings.format !== undefined && !['ts', 'json-schema', 'zod'].includes(settings.format)) {
+    throw invalid('"format" must be one of "ts", "json-schema" or "zod"');
+  }
+  if (settings.options !== undefined && !isObject(settings.options)) {
+    throw invalid('"options" must be an object');
+  }
+
+  validateValues(settings.options ?? {}, OPTION_VALUES, 'options', invalid);
+  validateValues(settings.options?.formatting ?? {}, FORMATTING_VALUES, 'options.formatting', invalid);
+  for (const key of ['typeMap', 'formatTypes']) {
+    const entry = Object.entries(settings.options?.[key] ?? {}).find(([, type]) => typeof type !== 'string');
+    if (entry) {
+      throw invalid(`"options.${key}.${entry[0]}" must be a string`);
+    }
+  }
+}
+
+/**
+ * Validates the values of an options object against their expected types and allowed values
+ * @param {object} options - The options to validate
+ * @param {Record<string, { type?: string, values?: any[] }>} expected - The expected values of the known options
+ * @param {string} prefix - The key path of the options, used in error messages (e.g. 'options')
+ * @param {(message: string) => Error} invalid - Creates the error thrown for an unknown option or invalid value
+ */
+function validateValues (options, expected, prefix, invalid) {
+  for (const [key, value] of Object.entries(options)) {
+    if (!Object.hasOwn(expected, key)) {
+      throw invalid(`unknown option "${prefix}.${key}"`);
+    }
+
+    const { type, values = [] } = expected[key];
+    const valid = values.includes(value) || (type === 'object' ? isObject(value) : type !== undefined && typeof value === type);
+    if (value === undefined || valid) {
+      continue;
+    }
+
+    const quoted = values.map(value => `"${value}"`);
+    const allowed = type
+      ? [`${type === 'object' ? 'an' : 'a'} ${type}`, ...quoted].join(' or ')
+      : `${quoted.length > 2 ? 'one of ' : ''}${quoted.slice(0, -1).join(', ')} or ${quoted.at(-1)}`;
+    throw invalid(`"${prefix}.${key}" must be ${allowed}`);
+  }
+}
+
+/**
+ * Loads and validates a config file
+ * @param {string} file - The path of the config file
+ * @returns {Promise<object>} The config (see the CliConfig type), with the output path resolved against the directory of the file
+ */
+async function loadConfig (file) {
+  const config = await readSettingsFile(file, 'config');
+  validateSettings(config, message => new Error(`Invalid config file ${file}: ${message}`));
+
+  return config.output ? { ...config, output: path.resolve(path.dirname(file), config.output) } : config;
+}
+
+/**
+ * Loads and validates a manifest file
+ * @param {string} file - The path of the manifest file
+ * @returns {Promise<object[]>} The entries (see the ManifestEntry type), with the input and output paths
+ * resolved against the directory of the file
+ */
+async function loadManifest (file) {
+  const manifest = await readSettingsFile(file, 'manifest');
+  const dir = path.dirname(file);
+
+  if (!isObject(manifest) || !Array.isArray(manifest.entries)) {
+    throw new Error(`Invalid manifest file ${file}: expected an object with an "entries" array`);
+  }
+
+  return manifest.entries.map((entry, index) => {
+    const invalid = message => new Error(`Invalid manifest file ${file}: entry #${index + 1}: ${message}`);
+    validateSettings(entry, invalid);
+
+    const inputs = [entry.input].flat();
+    if (!inputs.length || inputs.some(input => typeof input !== 'string' || !input)) {
+      throw invalid('"input" must be a path or glob pattern, or an array of them');
+    }
+    if (!entry.output) {
+      throw invalid('"output" is required');
+    }
+
+    return {
+      ...entry,
+      input: inputs.map(input => path.resolve(dir, input)),
+      output: path.resolve(dir, entry.output),
+    };
+  });
+}
+
+/**
+ * Builds the conversion settings given on the command line
+ * @param {object} args - The parsed command line arguments
+ * @returns {object} The settings (see the CliConfig type), without the ones not given
+ */
+function toCliSettings (args) {
+  const detectFormats = args['string-formats'] !== undefined;
+
+  return {
+    name: args.name || undefined,
+    export: args['export'] && toExportType(args['export']),
+    format: args.format,
+    flat: args.flat,
+    fromSchema: args.fromSchema,
+    output: args.output ?? undefined,
+    options: withoutUndefined({
+      propertyCase: args['property-case'] && toCaseType(args['property-case']),
+      namingStrategy: args['naming-strategy'] && toNamingStrategy(args['naming-strategy']),
+      dedupeInterfaces: args.dedupe && toDedupeStrategy(args.dedupe),
+      declarationStyle: args['declaration-style'] && toDeclarationStyle(args['declaration-style']),
+      enumStyle: args['enum-style'] && toEnumStyle(args['enum-style']),
+      enumThreshold: args['enum-threshold'],
+      strict: args.strict,
+      readonlyProperties: args.readonly,
+      optionalProperties: args.optional,
+      typeGuards: args.guards,
+      detectFormats: detectFormats || undefined,
+      formatTypes: detectFormats ? toFormatTypes(args['string-formats']) : undefined,
+      emitMode: args['emit-mode'] && (args['emit-mode'] === 'f' ? 'factory' : 'template'),
+      syntax: args.syntax,
+      typeMap: toTypeMap((args['type-map'] ?? []).filter(Boolean)),
+      formatting: toFormattingOptions(args),
+    }),
+  };
+}
+
+/**
+ * Converts the JSON samples (or the JSON Schema document) with the given settings
+ * @param {string[]} samples - The JSON samples
+ * @param {object} settings - The merged settings (see mergeSettings)
+ * @returns {string} The generated code
+ * @throws {ConversionError} If the conversion failed
+ */
+function generate (samples, settings) {
+  if (settings.fromSchema && samples.length > 1) {
+    throw new Error('Only one JSON Schema document can be converted at a time.');
+  }
+
+  const converter = toConverter(settings.format, settings.flat);
+
+  const { code, error } = settings.fromSchema
+    ? converter.tryConvertSchema(samples[0], settings.name, settings.export, settings.options)
+    : samples.length > 1
+      ? converter.tryConvertSamples(samples, settings.name, settings.export, settings.options)
+      : converter.tryConvert(samples[0], settings.name, settings.export, settings.options);
+
+  if (error) {
+    throw error;
+  }
+
+  return code;
+}
+
+/**
+ * Describes an error in the reports, with the position and a code frame of the broken input if known
+ * @param {Error} error - The error
+ * @returns {string} The description, e.g. "JSON parsing failed - ... (line 2, column 11)" followed by the code frame
+ */
+function toErrorMessage (error) {
+  if (!(error instanceof ConversionError)) {
+    return error.message;
+  }
+
+  // The code frame replaces the input snippet of the details
+  const position = error.line === undefined ? '' : ` (line ${error.line}, column ${error.column})`;
+  return `${error.message.split('\n')[0]}${position}${error.frame ? `\n${error.frame}` : ''}`;
+}
+
+/**
+ * Returns the description of the generated code of an output format
+ * @param {string} format - The output format ('ts', 'json-schema' or 'zod')
+ * @returns {string} The description, e.g. "TypeScript definitions"
+ */
+function toOutputDescription (format) {
+  return { 'json-schema': 'JSON Schema', zod: 'Zod schemas' }[format] ?? 'TypeScript definitions';
+}
+
+/**
+ * Describes an entry in the conversion reports
+ * @param {string[]} input - The input paths or glob patterns of the entry
+ * @param {object} settings - The merged settings of the entry
+ * @returns {string} The description, e.g. "User (samples/user.json)"
+ */
+function toEntryLabel (input, settings) {
+  return `${settings.name} (${input.map(pattern => path.relative(process.cwd(), pattern)).join(', ')})`;
+}
+
+/**
+ * Resolves the syntax of the input files: the syntax option if given, detected from the file extensions otherwise.
+ * Of files with different syntaxes the most lenient one is used, as JSON5 accepts JSONC and JSONC accepts JSON.
+ * @param {object} settings - The merged settings
+ * @param {string[]} files - The input files
+ * @returns {object} The settings with the syntax option set if a lenient syntax was detected
+ */
+function withSyntax (settings, files) {
+  if (settings.options.syntax) {
+    return settings;
+  }
+
+  const detected = files.map(file => ConverterUtils.detectSyntax(file));
+  const syntax = ['json5', 'jsonc'].find(syntax => detected.includes(syntax));
+
+  return syntax ? { ...settings, options: { ...settings.options, syntax } } : settings;
+}
+
+/**
+ * Converts the input of an entry
+ * @param {string[]} input - The input paths or glob patterns of the entry
+ * @param {object} settings - The merged settings of the entry
+ * @returns {{ samples: string[], code: string, settings: object }} The JSON samples that were converted, the generated code
+ * and the settings they were converted with (see withSyntax)
+ */
+function generateEntry (input, settings) {
+  const files = input.flatMap(expandGlob);
+  if (!files.length) {
+    throw new Error('No files matched');
+  }
+
+  const samples = files.map(file => fs.readFileSync(file, { encoding: 'utf-8' }));
+  const resolved = withSyntax(settings, files);
+  try {
+    return { samples, code: `${generate(samples, resolved)}\n`, settings: resolved };
+  } catch (error) {
+    // Name the file of a sample that could not be parsed
+    if (error instanceof ConversionError && error.sample !== undefined && files.length > 1) {
+      error.message = `${path.relative(process.cwd(), files[error.sample])}: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Converts the input of an entry and writes the generated code to its output
+ * @param {string[]} input - The input paths or glob patterns of the entry
+ * @param {object} settings - The merged settings of the entry
+ * @returns {{ samples: string[], code: string, settings: object }} The converted entry (see generateEntry)
+ */
+function convertEntry (input, settings) {
+  const entry = generateEntry(input, settings);
+
+  fs.mkdirSync(path.dirname(settings.output), { recursive: true });
+  fs.writeFileSync(settings.output, entry.code);
+
+  return entry;
+}
+
+/**
+ * Converts every entry of a manifest, reporting the outcome of each entry
+ * @param {object[]} entries - The manifest entries (see loadManifest)
+ * @param {object[]} sources - The settings the entries are based on, e.g. of the config file and the command line flags
+ * @param {boolean} [check] - Whether to compare the generated code with the outputs instead of writing them
+ * @returns {{ converted: object[], failed: number, outdated: number }} The merged settings of the converted entries,
+ * the number of failed entries and the number of outputs that are out of date
+ */
+function convertEntries (entries, sources, check = false) {
+  const converted = [];
+  let outdated = 0;
+
+  for (const { input, ...overrides } of entries) {
+    const settings = mergeSettings(...sources, overrides);
+    const label = toEntryLabel(input, settings);
+    const output = path.relative(process.cwd(), settings.output);
+
+    try {
+      if (check) {
+        const diff = checkOutput(settings.output, generateEntry(input, settings).code);
+        if (diff === null) {
+          console.log(`✓ ${label}: ${output} is up to date`);
+        } else {
+          outdated++;
+          console.log(`✗ ${label}: ${output} is out of date\n${diff}`);
+        }
+      } else {
+        convertEntry(input, settings);
+        console.log(`✓ ${label} → ${output}`);
+      }
+      converted.push(settings);
+    } catch (error) {
+      console.error(`✗ ${label}: ${toErrorMessage(error)}`);
+    }
+  }
+
+  const failed = entries.length - converted.length;
+  console.log(check
+    ? `\nChecked ${entries.length} entries, ${outdated} out of date${failed ? `, ${failed} failed` : ''}`
+    : `\nConverted ${converted.length} of ${entries.length} entries${failed ? `, ${failed} failed` : ''}`);
+
+  return { converted, failed, outdated };
+}
+
+/**
+ * Analyzes the JSON samples (or the JSON Schema document) the way generate() converts them
+ * @param {string[]} samples - The JSON samples
+ * @param {object} settings - The merged settings (see mergeSettings)
+ * @returns {object|null} The type model, or null if the analysis failed
+ */
+function analyze (samples, settings) {
+  return settings.fromSchema
+    ? JsonToTsConverter.analyzeSchema(samples[0], settings.name, settings.export, settings.options)
+    : samples.length > 1
+      ? JsonToTsConverter.analyzeSamples(samples, settings.name, settings.export, settings.options)
+      : JsonToTsConverter.analyze(samples[0], settings.name, settings.export, settings.options);
+}
+
+/**
+ * Lists the declarations added (`+`), changed (`~`) and removed (`-`) between two type models
+ * @param {object|null} previous - The previous type model
+ * @param {object|null} current - The current type model
+ * @returns {string[]} The changes, e.g. ['~User', '+Address']
+ */
+function diffModels (previous, current) {
+  const before = new Map((previous?.declarations ?? []).map(declaration => [declaration.name, JSON.stringify(declaration)]));
+  const after = new Map((current?.declarations ?? []).map(declaration => [declaration.name, JSON.stringify(declaration)]));
+
+  return [
+    ...[...after].filter(([name, json]) => before.get(name) !== json).map(([name]) => `${before.has(name) ? '~' : '+'}${name}`),
+    ...[...before.keys()].filter(name => !after.has(name)).map(name => `-${name}`),
+  ];
+}
+
+/**
+ * Converts the entries, then watches their input and converts the affected entries again on every change,
+ * reporting the declarations that changed. Keeps the process alive until it is interrupted.
+ * @param {() => object[]} listEntries - Lists the entries (see convertEntries), called again on every change
+ * @param {object[]} sources - The settings the entries are based on, e.g. of the config file and the command line flags
+ * @param {{ patterns?: string[], onConverted?: (converted: object[]) => void }} [watchOptions] - The paths or glob patterns
+ * to watch (default: the input of the entries) and a callback receiving the merged settings of the entries converted so far
+ */
+function watchEntries (listEntries, sources, { patterns, onConverted } = {}) {
+  /** @type {Map<string, { settings: object, model: object|null }>} Last successful conversion of each output */
+  const results = new Map();
+  const changed = new Set();
+  let timer;
+
+  const run = (initial) => {
+    let entries;
+    try {
+      entries = listEntries();
+    } catch (error) {
+      console.error(`✗ ${toErrorMessage(error)}`);
+      changed.clear();
+      return;
+    }
+
+    for (const { input, ...overrides } of entries) {
+      if (!initial && !changed.has(null) && ![...changed].some(file => input.some(pattern => matchesGlob(file, pattern)))) {
+        continue;
+      }
+
+      const settings = mergeSettings(...sources, overrides);
+      const label = toEntryLabel(input, settings);
+      try {
+        const entry = convertEntry(input, settings);
+        const model = analyze(entry.samples, entry.settings);
+        const previous = results.get(settings.output);
+        const changes = diffModels(previous?.model, model);
+        results.set(settings.output, { settings, model });
+
+        const summary = initial ? '' : `: ${changes.length ? (settings.flat ? [`~${settings.name}`] : changes).join(', ') : 'no declarations changed'}`;
+        console.log(`✓ ${label} → ${path.relative(process.cwd(), settings.output)}${summary}`);
+      } catch (error) {
+        console.error(`✗ ${label}: ${toErrorMessage(error)}`);
+      }
+    }
+
+    onConverted?.(entries.filter(entry => results.has(entry.output)).map(entry => results.get(entry.output).settings));
+    changed.clear();
+  };
+
+  run(true);
+
+  const targets = new Map();
+  for (const pattern of patterns ?? listEntries().flatMap(entry => entry.input)) {
+    const glob = parseGlob(pattern);
+    const dir = path.resolve(glob ? glob.baseDir : path.dirname(pattern));
+    targets.set(dir, targets.get(dir) || Boolean(glob));
+  }
+
+  for (const [dir, recursive] of targets) {
+    fs.watch(dir, { recursive }, (event, filename) => {
+      changed.add(filename ? path.join(dir, filename) : null);
+      clearTimeout(timer);
+      timer = setTimeout(() => run(false), WATCH_DELAY);
+    });
+  }
+
+  console.log('\nWatching for changes... (press Ctrl+C to stop)');
+}
+
+/**
+ * Creates an entry for each JSON (JSONC, JSON5) file of a directory and its sub-directories.
+ * The root of each entry is named after the file, its output mirrors the directory structure in the output directory.
+ * @param {string} inputDir - The directory of the JSON files
+ * @param {string} outputDir - The directory of the generated files
+ * @param {string} format - The output format ('ts', 'json-schema' or 'zod')
+ * @returns {{ input: string[], name: string, output: string }[]} The entries, see convertEntries
+ * @throws {Error} If two files generate the same output, e.g. `user.json` and `user.json5`
+ */
+function toDirectoryEntries (inputDir, outputDir, format) {
+  const extension = format === 'json-schema' ? '.schema.json' : '.ts';
+  const outside = file => path.relative(outputDir, file).startsWith('..');
+
+  const entries = DIRECTORY_PATTERNS.flatMap(pattern => expandGlob(path.join(inputDir, pattern)))
+    .sort()
+    .filter(file => path.resolve(outputDir) === path.resolve(inputDir) || outside(file))
+    .map(file => ({
+      input: [file],
+      name: ConverterUtils.toInterfaceName(path.basename(file, path.extname(file))),
+      output: path.join(outputDir, path.relative(inputDir, file).replace(/\.json[c5]?$/, extension)),
+    }));
+
+  const inputs = new Map();
+  for (const { input: [file], output } of entries) {
+    const other = inputs.get(path.resolve(output));
+    if (other) {
+      throw new Error(`${other} and ${file} both generate ${output}, rename one of them`);
+    }
+    inputs.set(path.resolve(output), file);
+  }
+
+  return entries;
+}
+
+/**
+ * Creates the code of an index.ts barrel re-exporting the roots of the generated files.
+ * Roots sharing their name with another root are re-exported under a name derived from their path, e.g. `AdminUser`.
+ * @param {string} outputDir - The directory of the barrel
+ * @param {object[]} converted - The merged settings of the converted entries
+ * @param {object} formatting - The formatting options (quote style and member separator)
+ * @returns {string} The barrel code
+ */
+function toBarrel (outputDir, converted, formatting) {
+  const exported = converted.filter(settings => settings.export !== 'none');
+  const counts = exported.reduce((counts, { name }) => counts.set(name, (counts.get(name) ?? 0) + 1), new Map());
+  const quote = formatting.quoteStyle === 'single' ? '\'' : '"';
+  const semicolon = formatting.memberSeparator === 'none' ? '' : ';';
+
+  return exported
+    .map(({ name, format, output }) => {
+      const module = `./${path.relative(outputDir, output).replace(/\.ts$/, '').split(path.sep).join('/')}`;
+      const alias = counts.get(name) > 1 ? ConverterUtils.toInterfaceName(module.slice(2).replace(/\//g, '-')) : name;
+      const as = suffix => alias === name ? `${name}${suffix}` : `${name}${suffix} as ${alias}${suffix}`;
+
+      return format === 'zod'
+        ? `export { ${as('Schema')}, type ${as('')} } from ${quote}${module}${quote}${semicolon}`
+        : `export type { ${as('')} } from ${quote}${module}${quote}${semicolon}`;
+    })
+    .join('\n') + '\n';
+}
+
 /**
  * Reads input from stdin if available
  * @returns {Promise<string|null>} - Promise that resolves with the stdin data or null
@@ -169,17 +1026,154 @@ async function readStdin () {
 (async function() {
   printHeader();
 
-  const dir = path.resolve(process.cwd());
-  const flat = Object.hasOwn(argv, 'flat');
-  const propertyCase = toCaseType(argv['property-case']);
-  const strict = Object.hasOwn(argv, 'strict');
-  const readonlyProperties = Object.hasOwn(argv, 'readonly');
-  const optionalProperties = Object.hasOwn(argv, 'optional');
+  let sources;
+  try {
+    const configFile = argv.config ?? findConfigFile(process.cwd());
+    sources = [configFile ? await loadConfig(configFile) : {}, toCliSettings(argv)];
+  } catch (error) {
+    console.error(error.message);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (argv.check && argv.watch) {
+    console.error('--check cannot be combined with --watch.');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (argv.manifest) {
+    if ((argv.file ?? []).some(Boolean) || argv.text || argv.output) {
+      console.error('--manifest cannot be combined with --file, --text or --output.');
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      const entries = await loadManifest(argv.manifest);
+      if (argv.watch) {
+        watchEntries(() => entries, sources);
+      } else {
+        process.exitCode = toExitCode(convertEntries(entries, sources, argv.check));
+      }
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (argv.dir || argv.outDir) {
+    if (!argv.dir || !argv.outDir) {
+      console.error('--dir and --out-dir must be given together.');
+      process.exitCode = 1;
+      return;
+    }
+    if ((argv.file ?? []).some(Boolean) || argv.text || argv.output || argv.manifest) {
+      console.error('--dir cannot be combined with --file, --text, --output or --manifest.');
+      process.exitCode = 1;
+      return;
+    }
+
+    const settings = mergeSettings(...sources);
+    const barrel = path.join(argv.outDir, 'index.ts');
+    let entries;
+    try {
+      entries = toDirectoryEntries(argv.dir, argv.outDir, settings.format);
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+      return;
+    }
+    if (!entries.length) {
+      console.error(`No JSON files found in ${argv.dir}`);
+      process.exitCode = 1;
+      return;
+    }
+    if (settings.format !== 'json-schema' && entries.some(entry => path.resolve(entry.output) === path.resolve(barrel))) {
+      console.error(`${barrel} is reserved for the barrel, rename the index file of ${argv.dir}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    /** Writes (or checks) the barrel, returning whether it is out of date */
+    const writeBarrel = converted => {
+      if (settings.format === 'json-schema' || !converted.length) {
+        return false;
+      }
+
+      const code = toBarrel(argv.outDir, converted, settings.options.formatting);
+      if (argv.check) {
+        const diff = checkOutput(barrel, code);
+        console.log(diff === null ? `✓ The barrel ${barrel} is up to date` : `✗ The barrel ${barrel} is out of date\n${diff}`);
+        return diff !== null;
+      }
+      if (!fs.existsSync(barrel) || fs.readFileSync(barrel, 'utf-8') !== code) {
+        fs.writeFileSync(barrel, code);
+        console.log(`Successfully wrote the barrel to: ${barrel}`);
+      }
+      return false;
+    };
+
+    try {
+      if (argv.watch) {
+        const listEntries = () => toDirectoryEntries(argv.dir, argv.outDir, settings.format);
+        watchEntries(listEntries, sources, { patterns: DIRECTORY_PATTERNS.map(pattern => path.join(argv.dir, pattern)), onConverted: writeBarrel });
+        return;
+      }
+
+      const { converted, failed, outdated } = convertEntries(entries, sources, argv.check);
+      process.exitCode = toExitCode({ failed, outdated: outdated + Number(writeBarrel(converted)) });
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (argv.watch) {
+    const patterns = (argv.file ?? []).filter(Boolean);
+    const { output } = mergeSettings(...sources);
+    if (!patterns.length || !output) {
+      console.error('--watch needs --file with --output, --dir or --manifest.');
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      watchEntries(() => [{ input: patterns, output }], sources);
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (argv.check && !mergeSettings(...sources).output) {
+    console.error('--check needs the --output file to compare with.');
+    process.exitCode = 1;
+    return;
+  }
 
   let jsonData;
+  /** @type {string[]} */
+  let samples = [];
+  /** @type {string[]} */
+  let files = [];
   try {
-    if (argv.file) {
-      jsonData = fs.readFileSync(argv.file, { encoding: 'utf-8' });
+    const patterns = (argv.file ?? []).filter(Boolean);
+
+    if (patterns.length) {
+      files = patterns.flatMap(expandGlob);
+
+      if (!files.length) {
+        console.error(`No files matched: ${patterns.join(', ')}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      samples = files.map(file => fs.readFileSync(file, { encoding: 'utf-8' }));
+      jsonData = samples[0];
     } else if (argv.text) {
       jsonData = argv.text;
     } else {
@@ -197,22 +1191,30 @@ async function readStdin () {
     return;
   }
 
-  const converter = flat ? JsonToFlattenedTsConverter : JsonToTsConverter;
-  const typescriptCode = converter.convert(
-    jsonData, argv.name || 'RootObject', toExportType(argv['export']), {
-      propertyCase,
-      strict,
-      readonlyProperties,
-      optionalProperties,
-    },
-  ) + `\n`;
-
-  if (argv['output']) {
-    const outputFile = argv.output || path.join(dir, 'output.ts');
+  // Command line flags override the values of the config file
+  const settings = withSyntax(mergeSettings(...sources), files);
+  let typescriptCode;
+  try {
+    typescriptCode = generate(samples.length ? samples : [jsonData], settings);
+  } catch (error) {
+    console.error(toErrorMessage(error));
+    process.exitCode = 1;
+    return;
+  }
+  typescriptCode += `\n`;
 
+  if (argv.check) {
+    const diff = checkOutput(settings.output, typescriptCode);
+    if (diff === null) {
+      console.log(`${settings.output} is up to date`);
+    } else {
+      console.log(`${settings.output} is out of date\n${diff}`);
+      process.exitCode = EXIT_OUTDATED;
+    }
+  } else if (settings.output) {
     try {
-      fs.writeFileSync(outputFile, typescriptCode);
-      console.log(`Successfully wrote TypeScript definitions to: ${outputFile}`);
+      fs.writeFileSync(settings.output, typescriptCode);
+      console.log(`Successfully wrote ${toOutputDescription(settings.format)} to: ${settings.output}`);
     } catch (error) {
       console.error('Error writing output file:', error.message);
       process.exitCode = 1;
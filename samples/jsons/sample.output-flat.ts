@@ -40,7 +40,7 @@ export interface SampleFlat {
       phone: string;
       relationship: string;
       emails: string[];
-      addresses: {
+      addresses?: {
         type: string;
         street: string;
         city: string;
@@ -52,11 +52,37 @@ export interface SampleFlat {
           lng: number;
         };
       }[];
-      alternatePhones: {
+      alternatePhones?: {
         mobile: string;
         work: string;
         international: string;
       };
+      medicalInfo?: {
+        bloodType: string;
+        allergies: string[];
+        medications: string[];
+        conditions: string[];
+        emergencyNotes: string;
+        insurance: {
+          provider: string;
+          policyNumber: string;
+          groupNumber: string;
+        };
+      };
+      socialMedia?: {
+        linkedin: string;
+        twitter: string;
+        instagram: string;
+        github: string;
+        portfolio: string;
+      };
+      company?: {
+        name: string;
+        position: string;
+        department: string;
+        location: string;
+        employeeId: string;
+      };
     }[];
     employment: {
       current: {
@@ -76,24 +102,32 @@ export interface SampleFlat {
           status: string;
           technologies: string[];
           teamSize: number;
-          deadline: string;
+          deadline?: string;
+          completedDate?: string;
         }[];
       };
       previous: {
         company: string;
         position: string;
         duration: string;
-        achievements: string[];
+        achievements?: string[];
+        projectsCompleted?: number;
+        clientsServed?: number;
       }[];
     };
     education: {
       institution: string;
-      degree: string;
-      major: string;
-      graduationYear: number;
-      gpa: number;
-      honors: string[];
-      activities: string[];
+      degree?: string;
+      major?: string;
+      graduationYear?: number;
+      gpa?: number;
+      honors?: string[];
+      activities?: string[];
+      certifications?: {
+        name: string;
+        date: string;
+        expiry: string;
+      }[];
     }[];
     health: {
       vitals: {
@@ -106,8 +140,9 @@ export interface SampleFlat {
       appointments: {
         date: string;
         type: string;
-        doctor: string;
+        doctor?: string;
         clinic: string;
+        dentist?: string;
       }[];
       medications: {
         name: string;
@@ -177,7 +212,8 @@ export interface SampleFlat {
       model: string;
       os: string;
       lastUsed: string;
-      apps: string[];
+      apps?: string[];
+      software?: string[];
     }[];
     subscriptions: {
       service: string;
@@ -212,9 +248,13 @@ export interface SampleFlat {
       following: number;
       connections: {
         platform: string;
-        connections: number;
-        profileViews: number;
-        postImpressions: number;
+        connections?: number;
+        profileViews?: number;
+        postImpressions?: number;
+        followers?: number;
+        following?: number;
+        tweets?: number;
+        posts?: number;
       }[];
     };
     skills: {
@@ -228,23 +268,39 @@ export interface SampleFlat {
     projects: {
       name: string;
       description: string;
-      technologies: string[];
-      status: string;
-      url: string;
-      github: string;
+      technologies?: string[];
+      status?: string;
+      url?: string;
+      github?: string;
+      repositories?: {
+        name: string;
+        commits: number;
+      }[];
     }[];
     achievements: {
       title: string;
-      organization: string;
-      year: number;
-      description: string;
+      organization?: string;
+      year?: number;
+      description?: string;
+      event?: string;
+      prize?: string;
+      project?: string;
+      topic?: string;
     }[];
     hobbies: {
       category: string;
       activities: {
         name: string;
-        frequency: string;
-        level: string;
+        frequency?: string;
+        level?: string;
+        equipment?: string[];
+        years?: number;
+        styles?: string[];
+        type?: string;
+        platform?: string;
+        rating?: number;
+        genres?: string[];
+        collection?: string[];
       }[];
     }[];
   };
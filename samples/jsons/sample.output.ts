@@ -27,33 +27,114 @@ interface Person {
   email: string[];
   dateOfBirth: string;
   registered: boolean;
-  emergencyContacts: [object, object, object, object];
+  emergencyContacts: EmergencyContact[];
   employment: Employment;
-  education: [object, object];
+  education: EducationItem[];
   health: Health;
   financial: Financial;
   preferences: Preferences;
-  devices: [object, object, object, object];
-  subscriptions: [object, object, object, object];
+  devices: Device[];
+  subscriptions: Subscription[];
   travel: Travel;
   socialConnections: SocialConnections;
-  skills: [object, object, object];
-  projects: [object, object, object];
-  achievements: [object, object, object];
-  hobbies: [object, object, object];
+  skills: Skill[];
+  projects: PersonProject[];
+  achievements: Achievement[];
+  hobbies: Hobby[];
+}
+
+interface Hobby {
+  category: string;
+  activities: Activity[];
+}
+
+interface Activity {
+  name: string;
+  frequency?: string;
+  level?: string;
+  equipment?: string[];
+  years?: number;
+  styles?: string[];
+  type?: string;
+  platform?: string;
+  rating?: number;
+  genres?: string[];
+  collection?: string[];
+}
+
+interface Achievement {
+  title: string;
+  organization?: string;
+  year?: number;
+  description?: string;
+  event?: string;
+  prize?: string;
+  project?: string;
+  topic?: string;
+}
+
+interface PersonProject {
+  name: string;
+  description: string;
+  technologies?: string[];
+  status?: string;
+  url?: string;
+  github?: string;
+  repositories?: Repository[];
+}
+
+interface Repository {
+  name: string;
+  commits: number;
+}
+
+interface Skill {
+  category: string;
+  items: Item[];
+}
+
+interface Item {
+  name: string;
+  proficiency: string;
+  years: number;
 }
 
 interface SocialConnections {
   friends: number;
   followers: number;
   following: number;
-  connections: [object, object, object];
+  connections: Connection[];
+}
+
+interface Connection {
+  platform: string;
+  connections?: number;
+  profileViews?: number;
+  postImpressions?: number;
+  followers?: number;
+  following?: number;
+  tweets?: number;
+  posts?: number;
 }
 
 interface Travel {
   passport: Passport;
-  frequentFlyer: [object, object, object];
-  recentTrips: [object, object];
+  frequentFlyer: FrequentFlyerItem[];
+  recentTrips: RecentTrip[];
+}
+
+interface RecentTrip {
+  destination: string;
+  dates: string;
+  purpose: string;
+  hotel: string;
+  flights: string[];
+}
+
+interface FrequentFlyerItem {
+  airline: string;
+  number: string;
+  miles: number;
 }
 
 interface Passport {
@@ -63,6 +144,24 @@ interface Passport {
   country: string;
 }
 
+interface Subscription {
+  service: string;
+  plan: string;
+  cost: number;
+  billingCycle: string;
+  nextPayment: string;
+}
+
+interface Device {
+  type: string;
+  brand: string;
+  model: string;
+  os: string;
+  lastUsed: string;
+  apps?: string[];
+  software?: string[];
+}
+
 interface Preferences {
   notifications: Notifications;
   privacy: Privacy;
@@ -86,14 +185,14 @@ interface Notifications {
 }
 
 interface Financial {
-  bankAccounts: [object, object];
-  creditCards: [object, object];
+  bankAccounts: BankAccount[];
+  creditCards: CreditCard[];
   investments: Investments;
 }
 
 interface Investments {
   retirement: Retirement;
-  stocks: [object, object, object];
+  stocks: Stock[];
   realEstate: RealEstate;
 }
 
@@ -108,16 +207,55 @@ interface PrimaryResidence {
   mortgage: number;
 }
 
+interface Stock {
+  symbol: string;
+  shares: number;
+  purchasePrice: number;
+  currentPrice: number;
+}
+
 interface Retirement {
   "401k": number;
   ira: number;
   rothIRA: number;
 }
 
+interface CreditCard {
+  issuer: string;
+  type: string;
+  lastFour: string;
+  limit: number;
+  balance: number;
+  dueDate: string;
+}
+
+interface BankAccount {
+  type: string;
+  bank: string;
+  accountNumber: string;
+  routingNumber: string;
+  balance: number;
+}
+
 interface Health {
   vitals: Vitals;
-  appointments: [object, object];
-  medications: [object, object];
+  appointments: Appointment[];
+  medications: Medication[];
+}
+
+interface Medication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  prescribed: string;
+}
+
+interface Appointment {
+  date: string;
+  type: string;
+  doctor?: string;
+  clinic: string;
+  dentist?: string;
 }
 
 interface Vitals {
@@ -128,9 +266,35 @@ interface Vitals {
   temperature: number;
 }
 
+interface EducationItem {
+  institution: string;
+  degree?: string;
+  major?: string;
+  graduationYear?: number;
+  gpa?: number;
+  honors?: string[];
+  activities?: string[];
+  certifications?: Certification[];
+}
+
+interface Certification {
+  name: string;
+  date: string;
+  expiry: string;
+}
+
 interface Employment {
   current: Current;
-  previous: [object, object];
+  previous: PreviousItem[];
+}
+
+interface PreviousItem {
+  company: string;
+  position: string;
+  duration: string;
+  achievements?: string[];
+  projectsCompleted?: number;
+  clientsServed?: number;
 }
 
 interface Current {
@@ -140,7 +304,16 @@ interface Current {
   startDate: string;
   salary: number;
   manager: Manager;
-  projects: [object, object];
+  projects: Project[];
+}
+
+interface Project {
+  name: string;
+  status: string;
+  technologies: string[];
+  teamSize: number;
+  deadline?: string;
+  completedDate?: string;
 }
 
 interface Manager {
@@ -150,6 +323,70 @@ interface Manager {
   phone: string;
 }
 
+interface EmergencyContact {
+  name: string;
+  phone: string;
+  relationship: string;
+  emails: string[];
+  addresses?: Address[];
+  alternatePhones?: AlternatePhones;
+  medicalInfo?: MedicalInfo;
+  socialMedia?: SocialMedia;
+  company?: Company;
+}
+
+interface Company {
+  name: string;
+  position: string;
+  department: string;
+  location: string;
+  employeeId: string;
+}
+
+interface SocialMedia {
+  linkedin: string;
+  twitter: string;
+  instagram: string;
+  github: string;
+  portfolio: string;
+}
+
+interface MedicalInfo {
+  bloodType: string;
+  allergies: string[];
+  medications: string[];
+  conditions: string[];
+  emergencyNotes: string;
+  insurance: Insurance;
+}
+
+interface Insurance {
+  provider: string;
+  policyNumber: string;
+  groupNumber: string;
+}
+
+interface AlternatePhones {
+  mobile: string;
+  work: string;
+  international: string;
+}
+
+interface Address {
+  type: string;
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  coordinates: Coordinates;
+}
+
+interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
 interface Phones {
   home: string;
   mobile: string;
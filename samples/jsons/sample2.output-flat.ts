@@ -1,4 +1,4 @@
-export interface Sample2 {
+export interface Sample2Flat {
   product: string;
   version: number;
   releaseDate: string;
@@ -33,7 +33,7 @@ export interface Sample2 {
       phone: string;
       relationship: string;
       emails: string[];
-      addresses: {
+      addresses?: {
         type: string;
         street: string;
         city: string;
@@ -45,11 +45,37 @@ export interface Sample2 {
           lng: number;
         };
       }[];
-      alternatePhones: {
+      alternatePhones?: {
         mobile: string;
         work: string;
         international: string;
       };
+      medicalInfo?: {
+        bloodType: string;
+        allergies: string[];
+        medications: string[];
+        conditions: string[];
+        emergencyNotes: string;
+        insurance: {
+          provider: string;
+          policyNumber: string;
+          groupNumber: string;
+        };
+      };
+      socialMedia?: {
+        linkedin: string;
+        twitter: string;
+        instagram: string;
+        github: string;
+        portfolio: string;
+      };
+      company?: {
+        name: string;
+        position: string;
+        department: string;
+        location: string;
+        employeeId: string;
+      };
     }[];
     employment: {
       current: {
@@ -69,24 +95,32 @@ export interface Sample2 {
           status: string;
           technologies: string[];
           teamSize: number;
-          deadline: string;
+          deadline?: string;
+          completedDate?: string;
         }[];
       };
       previous: {
         company: string;
         position: string;
         duration: string;
-        achievements: string[];
+        achievements?: string[];
+        projectsCompleted?: number;
+        clientsServed?: number;
       }[];
     };
     education: {
       institution: string;
-      degree: string;
-      major: string;
-      graduationYear: number;
-      gpa: number;
-      honors: string[];
-      activities: string[];
+      degree?: string;
+      major?: string;
+      graduationYear?: number;
+      gpa?: number;
+      honors?: string[];
+      activities?: string[];
+      certifications?: {
+        name: string;
+        date: string;
+        expiry: string;
+      }[];
     }[];
     health: {
       vitals: {
@@ -99,8 +133,9 @@ export interface Sample2 {
       appointments: {
         date: string;
         type: string;
-        doctor: string;
+        doctor?: string;
         clinic: string;
+        dentist?: string;
       }[];
       medications: {
         name: string;
@@ -170,7 +205,8 @@ export interface Sample2 {
       model: string;
       os: string;
       lastUsed: string;
-      apps: string[];
+      apps?: string[];
+      software?: string[];
     }[];
     subscriptions: {
       service: string;
@@ -205,9 +241,13 @@ export interface Sample2 {
       following: number;
       connections: {
         platform: string;
-        connections: number;
-        profileViews: number;
-        postImpressions: number;
+        connections?: number;
+        profileViews?: number;
+        postImpressions?: number;
+        followers?: number;
+        following?: number;
+        tweets?: number;
+        posts?: number;
       }[];
     };
     skills: {
@@ -221,23 +261,39 @@ export interface Sample2 {
     projects: {
       name: string;
       description: string;
-      technologies: string[];
-      status: string;
-      url: string;
-      github: string;
+      technologies?: string[];
+      status?: string;
+      url?: string;
+      github?: string;
+      repositories?: {
+        name: string;
+        commits: number;
+      }[];
     }[];
     achievements: {
       title: string;
-      organization: string;
-      year: number;
-      description: string;
+      organization?: string;
+      year?: number;
+      description?: string;
+      event?: string;
+      prize?: string;
+      project?: string;
+      topic?: string;
     }[];
     hobbies: {
       category: string;
       activities: {
         name: string;
-        frequency: string;
-        level: string;
+        frequency?: string;
+        level?: string;
+        equipment?: string[];
+        years?: number;
+        styles?: string[];
+        type?: string;
+        platform?: string;
+        rating?: number;
+        genres?: string[];
+        collection?: string[];
       }[];
     }[];
   };
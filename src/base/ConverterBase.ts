@@ -4,17 +4,38 @@
  * @see https://github.com/blacksmoke26
  */
 
+// classes
+import ConversionError from '~/classes/ConversionError';
+
 // utils
-import ConverterUtils from '~/utils/ConverterUtils';
+import ConverterUtils, { JsonParseError } from '~/utils/ConverterUtils';
 
 // types
-import type { ExportType, ConvertOptions } from '~/typings/global';
+import type { ExportType, ConvertOptions, ConversionResult, ConversionWarning, DetailedConversionResult } from '~/typings/global';
+
+/**
+ * Generated code of a conversion, with the converter instance that generated it.
+ */
+interface Conversion {
+  code: string;
+  converter: ConverterBase;
+}
 
 /**
  * Abstract base class for JSON to TypeScript interface converters.
  * Provides robust common functionality with enhanced error handling and validation.
  */
 export default abstract class ConverterBase {
+  /**
+   * Names of the declarations generated by the converter, root first.
+   */
+  protected declarationNames: string[] = [];
+
+  /**
+   * Warnings about questionable spots of the input found by the converter.
+   */
+  protected warnings: ConversionWarning[] = [];
+
   /**
    * Protected constructor to enforce factory pattern usage.
    */
@@ -30,7 +51,7 @@ export default abstract class ConverterBase {
    * @param exportType Determines the export strategy. Defaults to 'root'.
    * @param options Configuration options for the conversion process.
    * @returns Formatted TypeScript interface string or null if conversion fails.
-   * @throws {Error} If conversion encounters unrecoverable errors.
+   * @throws {ConversionError} If the interface name is invalid, or the conversion fails with `errorMode: 'throw'`.
    * @example
    * ```typescript
    * const json = '{"name": "John", "age": 30}';
@@ -46,28 +67,372 @@ export default abstract class ConverterBase {
     exportType: ExportType = 'root',
     options: ConvertOptions = {},
   ): string | null {
-    // Validate interface name
-    if (!ConverterUtils.checkIdentifier(interfaceName)) {
-      throw new Error(`Invalid interface name: "${interfaceName}". Must be a valid TypeScript identifier.`);
-    }
+    this.validateName(interfaceName);
+
+    return this.report(options, () => this.runConvert(jsonData, interfaceName, exportType, options).code);
+  }
+
+  /**
+   * Converts several JSON samples of the same structure into a single set of TypeScript interfaces.
+   * Properties absent from some samples are marked optional, and differing value types
+   * are combined into unions.
+   *
+   * @param samples The JSON documents to convert. Each item can be a JSON string or a parsed value.
+   * @param interfaceName The name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns Formatted TypeScript interface string or null if conversion fails.
+   * @throws {ConversionError} If the interface name is invalid, or the conversion fails with `errorMode: 'throw'`.
+   * @example
+   * ```typescript
+   * const samples = ['{"id": 1, "name": "John"}', '{"id": "2", "email": "jane@example.com"}'];
+   * const interface = ConverterBase.convertSamples(samples, 'Person');
+   * // export interface Person {
+   * //   id: number | string;
+   * //   name?: string;
+   * //   email?: string;
+   * // }
+   * ```
+   */
+  public static convertSamples(
+    samples: (string | unknown)[],
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): string | null {
+    this.validateName(interfaceName);
+
+    return this.report(options, () => this.runConvertSamples(samples, interfaceName, exportType, options).code);
+  }
+
+  /**
+   * Converts a JSON Schema document into TypeScript interfaces.
+   * The declarations are derived from the schema keywords instead of sample values,
+   * with the same output style (naming, export modes, readonly/optional) as `convert()`.
+   *
+   * @param schema The JSON Schema document, as a JSON string or a parsed object.
+   * @param interfaceName The name for the root interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns Formatted TypeScript interface string or null if conversion fails.
+   * @throws {ConversionError} If the interface name is invalid, or the conversion fails with `errorMode: 'throw'`.
+   * @example
+   * ```typescript
+   * const schema = '{"type": "object", "properties": {"id": {"type": "integer"}}, "required": ["id"]}';
+   * const interface = ConverterBase.convertSchema(schema, 'Person');
+   * // export interface Person {
+   * //   id: number;
+   * // }
+   * ```
+   */
+  public static convertSchema(
+    schema: string | unknown,
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): string | null {
+    this.validateName(interfaceName);
+
+    return this.report(options, () => this.runConvertSchema(schema, interfaceName, exportType, options).code);
+  }
+
+  /**
+   * Converts a JSON object like `convert()`, returning a failed conversion as an error instead of logging it.
+   *
+   * @param jsonData The JSON object to convert.
+   * @param interfaceName The name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code, or the `ConversionError` of a failed conversion.
+   * @example
+   * ```typescript
+   * const { code, error } = JsonToTsConverter.tryConvert('{"id": 1,,}', 'User');
+   * if (error) {
+   *   console.error(`${error.code} at ${error.line}:${error.column}\n${error.frame}`);
+   *   // PARSE_FAILED at 1:10
+   *   // > 1 | {"id": 1,,}
+   *   //     |          ^
+   * }
+   * ```
+   */
+  public static tryConvert(
+    jsonData: string | unknown,
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): ConversionResult {
+    return this.attempt(() => this.convert(jsonData, interfaceName, exportType, { ...options, errorMode: 'throw' }));
+  }
+
+  /**
+   * Converts several JSON samples like `convertSamples()`, returning a failed conversion as an error instead of logging it.
+   * The `sample` property of the error holds the index of the sample that could not be parsed.
+   *
+   * @param samples The JSON documents to convert. Each item can be a JSON string or a parsed value.
+   * @param interfaceName The name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code, or the `ConversionError` of a failed conversion.
+   */
+  public static tryConvertSamples(
+    samples: (string | unknown)[],
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): ConversionResult {
+    return this.attempt(() => this.convertSamples(samples, interfaceName, exportType, { ...options, errorMode: 'throw' }));
+  }
+
+  /**
+   * Converts a JSON Schema document like `convertSchema()`, returning a failed conversion as an error instead of logging it.
+   *
+   * @param schema The JSON Schema document, as a JSON string or a parsed object.
+   * @param interfaceName The name for the root interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code, or the `ConversionError` of a failed conversion.
+   */
+  public static tryConvertSchema(
+    schema: string | unknown,
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): ConversionResult {
+    return this.attempt(() => this.convertSchema(schema, interfaceName, exportType, { ...options, errorMode: 'throw' }));
+  }
+
+  /**
+   * Converts a JSON object like `convert()`, returning the outcome in detail instead of logging it:
+   * the generated code, the names of the generated declarations, the warnings about questionable
+   * spots of the input (renamed declarations, circular references, empty arrays), the errors and statistics.
+   *
+   * @param jsonData The JSON object to convert.
+   * @param interfaceName The name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The detailed conversion result.
+   * @example
+   * ```typescript
+   * const { code, declarations, warnings, errors, stats } = JsonToTsConverter.convertDetailed('{"tags": [], "author": {"id": 1}}', 'Post');
+   * // declarations: ['Post', 'Author']
+   * // warnings: [{ code: 'EMPTY_ARRAY', message: 'Empty array at "tags": typed as any[]', path: 'tags' }]
+   * // errors: []
+   * // stats: { samples: 1, declarations: 2, lines: 8, duration: 0.4 }
+   * ```
+   */
+  public static convertDetailed(
+    jsonData: string | unknown,
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): DetailedConversionResult {
+    return this.detail(interfaceName, 1, () => this.runConvert(jsonData, interfaceName, exportType, options));
+  }
+
+  /**
+   * Converts several JSON samples like `convertSamples()`, returning the outcome in detail instead of logging it.
+   *
+   * @param samples The JSON documents to convert. Each item can be a JSON string or a parsed value.
+   * @param interfaceName The name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The detailed conversion result.
+   */
+  public static convertSamplesDetailed(
+    samples: (string | unknown)[],
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): DetailedConversionResult {
+    const count = Array.isArray(samples) ? samples.length : 0;
+    return this.detail(interfaceName, count, () => this.runConvertSamples(samples, interfaceName, exportType, options));
+  }
+
+  /**
+   * Converts a JSON Schema document like `convertSchema()`, returning the outcome in detail instead of logging it.
+   *
+   * @param schema The JSON Schema document, as a JSON string or a parsed object.
+   * @param interfaceName The name for the root interface. Defaults to 'RootObject'.
+   * @param exportType Determines the export strategy. Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The detailed conversion result.
+   */
+  public static convertSchemaDetailed(
+    schema: string | unknown,
+    interfaceName: string = 'RootObject',
+    exportType: ExportType = 'root',
+    options: ConvertOptions = {},
+  ): DetailedConversionResult {
+    return this.detail(interfaceName, 1, () => this.runConvertSchema(schema, interfaceName, exportType, options));
+  }
 
+  /**
+   * Parses and converts a JSON object.
+   *
+   * @param jsonData The JSON object to convert.
+   * @param interfaceName The name for the generated interface.
+   * @param exportType Determines the export strategy.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code and the converter that generated it.
+   * @throws {ConversionError} If the input cannot be parsed.
+   */
+  private static runConvert(jsonData: string | unknown, interfaceName: string, exportType: ExportType, options: ConvertOptions): Conversion {
     // Parse JSON with enhanced error handling
-    const parseResult = ConverterUtils.jsonParse(jsonData);
+    const parseResult = ConverterUtils.jsonParse(jsonData, options.syntax);
     if (parseResult.error) {
-      console.error(`Conversion failed: ${parseResult.error}${parseResult.details ? ` - ${parseResult.details}` : ''}`);
-      return null;
+      throw ConversionError.fromParseResult(parseResult, jsonData);
+    }
+
+    return this.execute(options, converter => converter.convertJson(parseResult.data, interfaceName, exportType));
+  }
+
+  /**
+   * Parses and converts several JSON samples.
+   *
+   * @param samples The JSON documents to convert.
+   * @param interfaceName The name for the generated interface.
+   * @param exportType Determines the export strategy.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code and the converter that generated it.
+   * @throws {ConversionError} If no samples are given or a sample cannot be parsed.
+   */
+  private static runConvertSamples(samples: (string | unknown)[], interfaceName: string, exportType: ExportType, options: ConvertOptions): Conversion {
+    if (!Array.isArray(samples) || !samples.length) {
+      throw new ConversionError('INVALID_INPUT', `${JsonParseError.INVALID_INPUT} - No samples provided`);
+    }
+
+    // Parse every sample with enhanced error handling
+    const documents: unknown[] = [];
+    for (const [index, sample] of samples.entries()) {
+      const parseResult = ConverterUtils.jsonParse(sample, options.syntax);
+      if (parseResult.error) {
+        throw ConversionError.fromParseResult(parseResult, sample, index);
+      }
+      documents.push(parseResult.data);
+    }
+
+    return this.execute(options, converter => converter.convertJsonSamples(documents, interfaceName, exportType));
+  }
+
+  /**
+   * Parses and converts a JSON Schema document.
+   *
+   * @param schema The JSON Schema document.
+   * @param interfaceName The name for the root interface.
+   * @param exportType Determines the export strategy.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated code and the converter that generated it.
+   * @throws {ConversionError} If the schema cannot be parsed.
+   */
+  private static runConvertSchema(schema: string | unknown, interfaceName: string, exportType: ExportType, options: ConvertOptions): Conversion {
+    // Parse the schema with enhanced error handling
+    const parseResult = ConverterUtils.jsonSchemaParse(schema, options.syntax);
+    if (parseResult.error) {
+      throw ConversionError.fromParseResult(parseResult, schema);
+    }
+
+    return this.execute(options, converter => converter.convertJsonSchema(parseResult.data, interfaceName, exportType));
+  }
+
+  /**
+   * Creates a converter instance and runs the conversion, passing its warnings to the `logger` option.
+   *
+   * @param options Configuration options for the conversion process.
+   * @param convert Runs the conversion with the converter.
+   * @returns The generated code and the converter that generated it.
+   */
+  private static execute(options: ConvertOptions, convert: (converter: ConverterBase) => string): Conversion {
+    const converter = this.createConverter(options);
+    const code = convert(converter);
+
+    for (const warning of converter.warnings) {
+      options.logger?.warn(warning.message, warning);
+    }
+
+    return { code, converter };
+  }
+
+  /**
+   * Runs a conversion, collecting its outcome in detail.
+   *
+   * @param interfaceName The name for the root interface.
+   * @param samples Number of samples to convert.
+   * @param convert Runs the conversion.
+   * @returns The detailed conversion result.
+   */
+  private static detail(interfaceName: string, samples: number, convert: () => Conversion): DetailedConversionResult {
+    const start = performance.now();
+    const stats = (code: string | null, declarations: string[]) => ({
+      samples,
+      declarations: declarations.length,
+      lines: code === null ? 0 : code.split('\n').length,
+      duration: performance.now() - start,
+    });
+
+    try {
+      this.validateName(interfaceName);
+      const { code, converter } = convert();
+      const declarations = [...converter.declarationNames];
+
+      return { code, declarations, warnings: [...converter.warnings], errors: [], stats: stats(code, declarations) };
+    } catch (error) {
+      return { code: null, declarations: [], warnings: [], errors: [ConversionError.from(error)], stats: stats(null, []) };
+    }
+  }
+
+  /**
+   * Checks that the root name is a valid TypeScript identifier.
+   *
+   * @param interfaceName The name for the root interface.
+   * @throws {ConversionError} With the `INVALID_NAME` code if the name is not a valid identifier.
+   */
+  private static validateName(interfaceName: string): void {
+    if (!ConverterUtils.checkIdentifier(interfaceName)) {
+      throw new ConversionError('INVALID_NAME', `Invalid interface name: "${interfaceName}". Must be a valid TypeScript identifier.`);
     }
+  }
 
-    // Create converter instance and delegate conversion
+  /**
+   * Runs a conversion, reporting a failure according to the `errorMode` and `logger` options.
+   *
+   * @param options Configuration options for the conversion process.
+   * @param convert Runs the conversion.
+   * @returns The generated code, or null if the conversion failed and the error was logged.
+   * @throws {ConversionError} If the conversion failed and `errorMode` is 'throw'.
+   */
+  private static report(options: ConvertOptions, convert: () => string): string | null {
     try {
-      const converter = this.createConverter(options);
-      return converter.convertJson(parseResult.data, interfaceName, exportType);
+      return convert();
     } catch (error) {
-      console.error('Conversion failed:', error instanceof Error ? error.message : String(error));
+      const conversionError = ConversionError.from(error);
+      if (options.errorMode === 'throw') {
+        throw conversionError;
+      }
+
+      const message = `Conversion failed: ${conversionError.message}`;
+      if (options.logger) {
+        options.logger.error(message, conversionError);
+      } else {
+        console.error(message);
+      }
       return null;
     }
   }
 
+  /**
+   * Runs a conversion throwing its errors, returning the generated code or the error.
+   *
+   * @param convert Runs the conversion.
+   * @returns The conversion result.
+   */
+  private static attempt(convert: () => string | null): ConversionResult {
+    try {
+      return { code: convert() ?? '', error: null };
+    } catch (error) {
+      return { code: null, error: ConversionError.from(error) };
+    }
+  }
+
   /**
    * Factory method to create converter instance.
    * Must be implemented by concrete converter classes.
@@ -78,7 +443,7 @@ export default abstract class ConverterBase {
 
   /**
    * Converts a JSON object into TypeScript interface definitions.
-   * Core conversion logic to be implemented by concrete converters.
+   * Treats the object as a single sample of the structure.
    *
    * @param jsonData The JSON object to convert. Must be a valid object.
    * @param rootInterfaceName The name for the root interface.
@@ -86,9 +451,45 @@ export default abstract class ConverterBase {
    * @returns Formatted TypeScript interface definitions.
    * @throws {Error} If conversion fails due to invalid input or processing errors.
    */
-  protected abstract convertJson(
+  protected convertJson(
     jsonData: unknown,
     rootInterfaceName: string,
     exportType?: ExportType,
+  ): string {
+    return this.convertJsonSamples([jsonData], rootInterfaceName, exportType);
+  }
+
+  /**
+   * Converts a parsed JSON Schema document into TypeScript interface definitions.
+   * Converters that cannot read schemas keep this default implementation.
+   *
+   * @param schema The parsed JSON Schema document.
+   * @param rootInterfaceName The name for the root interface.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns Formatted TypeScript interface definitions.
+   * @throws {Error} If the converter does not support JSON Schema input.
+   */
+  protected convertJsonSchema(
+    schema: unknown,
+    rootInterfaceName: string,
+    exportType?: ExportType,
+  ): string {
+    throw new Error(`JSON Schema input is not supported by ${this.constructor.name}`);
+  }
+
+  /**
+   * Converts one or more JSON samples into TypeScript interface definitions.
+   * Core conversion logic to be implemented by concrete converters.
+   *
+   * @param samples The parsed JSON samples to convert.
+   * @param rootInterfaceName The name for the root interface.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns Formatted TypeScript interface definitions.
+   * @throws {Error} If conversion fails due to invalid input or processing errors.
+   */
+  protected abstract convertJsonSamples(
+    samples: unknown[],
+    rootInterfaceName: string,
+    exportType?: ExportType,
   ): string;
 }
@@ -0,0 +1,165 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// base
+import ConverterBase from '~/base/ConverterBase';
+
+// classes
+import TypeInferrer from '~/classes/TypeInferrer';
+import JsonSchemaReader from '~/classes/JsonSchemaReader';
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+
+// types
+import type { ConvertOptions, ExportType } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { TypeModel } from '~/typings/model';
+
+/**
+ * Abstract base class for converters rendering the intermediate type model.
+ * The model is inferred from JSON samples or read from a JSON Schema document,
+ * so every input is rendered by the same emitter: the built-in emitter of the
+ * converter, or the custom emitter given by the `emitter` option.
+ */
+export default abstract class ModelConverterBase extends ConverterBase {
+  /**
+   * Protected constructor to enforce factory pattern usage.
+   * @param options Configuration options for the conversion process.
+   */
+  protected constructor(protected options: ConvertOptions = {}) {
+    super();
+  }
+
+  /**
+   * Analyzes JSON data and returns the inferred type model instead of rendered code.
+   *
+   * The model is plain, serialisable data (declarations, properties with their
+   * optional/readonly/nullable flags and source JSON paths, and type nodes),
+   * ready to be post-processed, diffed or rendered by a custom emitter.
+   *
+   * @param jsonData - JSON object or string to analyze
+   * @param interfaceName - Name for the root declaration (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the inference process
+   * @returns The type model, or null if parsing fails
+   *
+   * @example
+   * ```typescript
+   * const model = JsonToTsConverter.analyze({ id: 1, email: null }, 'User', 'root', { strict: true });
+   * // {
+   * //   rootName: 'User',
+   * //   declarations: [{
+   * //     kind: 'interface', name: 'User', exported: true, path: '',
+   * //     properties: [
+   * //       { key: 'id', type: { kind: 'keyword', name: 'number' }, optional: false, readonly: false, nullable: false, path: 'id' },
+   * //       { key: 'email', type: { kind: 'keyword', name: 'null' }, optional: false, readonly: false, nullable: true, path: 'email' },
+   * //     ],
+   * //   }],
+   * // }
+   * ```
+   */
+  public static analyze(jsonData: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): TypeModel | null {
+    return this.captureModel(options, captureOptions => this.convert(jsonData, interfaceName, exportType, captureOptions));
+  }
+
+  /**
+   * Analyzes several JSON samples and returns the single type model describing them all.
+   *
+   * @param samples - JSON objects or strings to analyze
+   * @param interfaceName - Name for the root declaration (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the inference process
+   * @returns The type model, or null if parsing fails
+   */
+  public static analyzeSamples(samples: (unknown | string)[], interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): TypeModel | null {
+    return this.captureModel(options, captureOptions => this.convertSamples(samples, interfaceName, exportType, captureOptions));
+  }
+
+  /**
+   * Reads a JSON Schema document and returns its type model.
+   *
+   * @param schema - JSON Schema document as an object or string
+   * @param interfaceName - Name for the root declaration (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the reading process
+   * @returns The type model, or null if parsing fails
+   */
+  public static analyzeSchema(schema: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): TypeModel | null {
+    return this.captureModel(options, captureOptions => this.convertSchema(schema, interfaceName, exportType, captureOptions));
+  }
+
+  /**
+   * Runs a conversion with an emitter capturing the type model instead of rendering it,
+   * so the analysis shares the input validation and error reporting of the conversion.
+   *
+   * @param options - Configuration options for the conversion process
+   * @param convert - Runs the conversion with the given options
+   * @returns The captured type model, or null if the conversion fails
+   */
+  private static captureModel(options: ConvertOptions, convert: (options: ConvertOptions) => string | null): TypeModel | null {
+    let model: TypeModel | null = null;
+    const emitter: Emitter = {
+      emit: inferred => {
+        model = inferred;
+        return '';
+      },
+    };
+
+    return convert({ ...options, emitter }) === null ? null : model;
+  }
+
+  /**
+   * Infers the type model of the parsed JSON samples and renders it.
+   *
+   * @param samples The parsed JSON samples to convert.
+   * @param rootInterfaceName The name for the root interface.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns The rendered output.
+   */
+  protected convertJsonSamples(samples: unknown[], rootInterfaceName: string, exportType: ExportType = 'root'): string {
+    const interfaceName = ConverterUtils.toInterfaceName(rootInterfaceName);
+    const inferrer = new TypeInferrer(this.options);
+    const model = inferrer.infer(samples, interfaceName, exportType);
+    this.warnings.push(...inferrer.warnings);
+    return this.renderModel(model, exportType);
+  }
+
+  /**
+   * Reads the type model of the parsed JSON Schema document and renders it.
+   *
+   * @param schema The parsed JSON Schema document.
+   * @param rootInterfaceName The name for the root interface.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns The rendered output.
+   */
+  protected convertJsonSchema(schema: unknown, rootInterfaceName: string, exportType: ExportType = 'root'): string {
+    const interfaceName = ConverterUtils.toInterfaceName(rootInterfaceName);
+    const reader = new JsonSchemaReader(this.options);
+    const model = reader.read(schema, interfaceName, exportType);
+    this.warnings.push(...reader.warnings);
+    return this.renderModel(model, exportType);
+  }
+
+  /**
+   * Renders the type model with the custom emitter of the `emitter` option,
+   * or with the built-in emitter of the converter.
+   *
+   * @param model The type model, root declaration first.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns The rendered output.
+   */
+  protected renderModel(model: TypeModel, exportType: ExportType): string {
+    this.declarationNames = model.declarations.map(declaration => declaration.name);
+    return (this.options.emitter ?? this.createEmitter()).emit(model, exportType);
+  }
+
+  /**
+   * Creates the built-in emitter of the converter.
+   * Must be implemented by concrete converter classes.
+   */
+  protected abstract createEmitter(): Emitter;
+}
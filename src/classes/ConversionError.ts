@@ -0,0 +1,115 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import CodeFrameUtils from '~/utils/CodeFrameUtils';
+import { JsonParseError } from '~/utils/ConverterUtils';
+
+// types
+import type { ConversionErrorCode, ParseResult } from '~/typings/global';
+
+/**
+ * Details of a conversion error.
+ */
+export interface ConversionErrorInfo {
+  /** 1-based line of the error in the input */
+  line?: number;
+  /** 1-based column of the error in the input */
+  column?: number;
+  /** UTF-8 byte offset of the error in the input */
+  offset?: number;
+  /** Excerpt of the input with the error marked by a caret */
+  frame?: string;
+  /** 0-based index of the failing sample, for conversions of several samples */
+  sample?: number;
+  /** The original error */
+  cause?: unknown;
+}
+
+/**
+ * Error describing why a conversion failed.
+ * Thrown by the converters with the `errorMode: 'throw'` option and returned by their `tryConvert()` methods.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   JsonToTsConverter.convert('{\n  "id": 1,,\n}', 'User', 'root', { errorMode: 'throw' });
+ * } catch (error) {
+ *   if (error instanceof ConversionError) {
+ *     console.log(error.code, error.line, error.column); // PARSE_FAILED 2 11
+ *     console.log(error.frame);
+ *     //   1 | {
+ *     // > 2 |   "id": 1,,
+ *     //     |           ^
+ *     //   3 | }
+ *   }
+ * }
+ * ```
+ */
+export default class ConversionError extends Error {
+  /** Machine-readable error code */
+  public readonly code: ConversionErrorCode;
+
+  /** 1-based line of the error in the input */
+  public readonly line?: number;
+
+  /** 1-based column of the error in the input */
+  public readonly column?: number;
+
+  /** UTF-8 byte offset of the error in the input */
+  public readonly offset?: number;
+
+  /** Excerpt of the input with the error marked by a caret */
+  public readonly frame?: string;
+
+  /** 0-based index of the failing sample, for conversions of several samples */
+  public readonly sample?: number;
+
+  /**
+   * @param code - Machine-readable error code
+   * @param message - Human-readable error message
+   * @param info - Position of the error in the input and other details
+   */
+  public constructor(code: ConversionErrorCode, message: string, info: ConversionErrorInfo = {}) {
+    super(message, info.cause === undefined ? undefined : { cause: info.cause });
+    this.name = 'ConversionError';
+    this.code = code;
+    this.line = info.line;
+    this.column = info.column;
+    this.offset = info.offset;
+    this.frame = info.frame;
+    this.sample = info.sample;
+  }
+
+  /**
+   * Creates the error of a failed parse, with a code frame of the input if the position of the error is known.
+   *
+   * @param result - The failed parse result of `ConverterUtils.jsonParse()` or `jsonSchemaParse()`
+   * @param input - The parsed input
+   * @param sample - 0-based index of the sample, for conversions of several samples
+   * @returns The conversion error
+   */
+  public static fromParseResult(result: ParseResult, input: unknown, sample?: number): ConversionError {
+    const code = (Object.keys(JsonParseError) as (keyof typeof JsonParseError)[])
+      .find(key => JsonParseError[key] === result.error) ?? 'INVALID_INPUT';
+    const message = `${sample === undefined ? '' : `sample #${sample + 1}: `}${result.error}${result.details ? ` - ${result.details}` : ''}`;
+    const frame = result.position && typeof input === 'string' ? CodeFrameUtils.create(input, result.position) : undefined;
+
+    return new ConversionError(code, message, { ...result.position, frame, sample });
+  }
+
+  /**
+   * Wraps any error thrown during a conversion.
+   *
+   * @param error - The thrown error
+   * @returns The error itself if it is a conversion error, a `CONVERSION_FAILED` conversion error otherwise
+   */
+  public static from(error: unknown): ConversionError {
+    if (error instanceof ConversionError) return error;
+
+    return new ConversionError('CONVERSION_FAILED', error instanceof Error ? error.message : String(error), { cause: error });
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// types
+import type { JsonSyntax } from '~/typings/global';
+
+/**
+ * Syntax error of a JSON document, with the index of the offending character.
+ */
+export class JsonSyntaxError extends SyntaxError {
+  /**
+   * @param message - Description of the error
+   * @param index - Index of the offending character in the text (UTF-16 code units)
+   */
+  public constructor(message: string, public readonly index: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Parser of JSON text reporting the exact position of syntax errors.
+ *
+ * `JSON.parse()` is faster, but depending on the JavaScript engine its errors lack the position
+ * of the offending character, e.g. `Unexpected token '}', "{"id": }" is not valid JSON`.
+ * This parser follows the grammar of the given syntax and fails at the first character breaking it:
+ * - json: strict JSON (RFC 8259)
+ * - jsonc: JSON with `//` and `/* *\/` comments and trailing commas, e.g. `tsconfig.json`
+ * - json5: JSONC with unquoted keys, single-quoted strings, hexadecimal numbers, `Infinity`, `NaN`
+ *   and the other extensions of JSON5 (https://spec.json5.org)
+ *
+ * @example
+ * ```typescript
+ * JsonParser.parse('{"id": 1}'); // { id: 1 }
+ * JsonParser.parse('{"id": }'); // throws JsonSyntaxError { message: 'Unexpected token "}", expected a JSON value', index: 7 }
+ * JsonParser.parse('{ id: 0x1F, /* user *\/ name: \'John\', }', 'json5'); // { id: 31, name: 'John' }
+ * ```
+ */
+export default class JsonParser {
+  /**
+   * Characters escaped by a backslash, in every syntax.
+   */
+  private static readonly ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+  /**
+   * Line terminators, which end single-line comments and can be escaped in JSON5 strings.
+   */
+  private static readonly LINE_TERMINATORS = '\n\r\u2028\u2029';
+
+  /**
+   * Index of the next character to read.
+   */
+  private index = 0;
+
+  /**
+   * @param text - The JSON text to parse
+   * @param syntax - The syntax of the text (default: 'json')
+   */
+  public constructor(private readonly text: string, private readonly syntax: JsonSyntax = 'json') {
+  }
+
+  /**
+   * Parses JSON text.
+   *
+   * @param text - The JSON text to parse
+   * @param syntax - The syntax of the text (default: 'json')
+   * @returns The parsed value
+   * @throws {JsonSyntaxError} If the text is not valid in the syntax
+   */
+  public static parse(text: string, syntax: JsonSyntax = 'json'): unknown {
+    return new JsonParser(text, syntax).parse();
+  }
+
+  /**
+   * Parses the JSON text of the parser.
+   *
+   * @returns The parsed value
+   * @throws {JsonSyntaxError} If the text is not valid in the syntax
+   */
+  public parse(): unknown {
+    this.index = 0;
+    this.skipWhitespace();
+    const value = this.parseValue();
+    this.skipWhitespace();
+
+    if (this.index < this.text.length) {
+      this.fail(`Unexpected ${this.describe()} after the JSON value`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Parses the value starting at the current character.
+   * @returns The parsed value
+   */
+  private parseValue(): unknown {
+    switch (this.text[this.index]) {
+      case '{':
+        return this.parseObject();
+      case '[':
+        return this.parseArray();
+      case '"':
+        return this.parseString();
+      case '\'':
+        if (this.syntax !== 'json5') break;
+        return this.parseString();
+      case 't':
+        return this.parseLiteral('true', true);
+      case 'f':
+        return this.parseLiteral('false', false);
+      case 'n':
+        return this.parseLiteral('null', null);
+    }
+
+    return this.parseNumber();
+  }
+
+  /**
+   * Parses an object, e.g. `{"id": 1}`.
+   * @returns The parsed object
+   */
+  private parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.index++;
+    this.skipWhitespace();
+
+    while (this.text[this.index] !== '}') {
+      const key = this.parseKey();
+      this.skipWhitespace();
+      this.expect(':');
+      this.skipWhitespace();
+
+      // Keys such as "__proto__" become own properties, as with JSON.parse()
+      Object.defineProperty(object, key, { value: this.parseValue(), enumerable: true, writable: true, configurable: true });
+      this.skipWhitespace();
+
+      if (this.text[this.index] === '}') break;
+
+      this.expect(',', '"," or "}"');
+      this.skipWhitespace();
+
+      if (this.syntax === 'json' && this.text[this.index] === '}') {
+        this.fail('Unexpected token "}", trailing commas are not allowed in JSON');
+      }
+    }
+
+    this.index++;
+    return object;
+  }
+
+  /**
+   * Parses an array, e.g. `[1, 2]`.
+   * @returns The parsed array
+   */
+  private parseArray(): unknown[] {
+    const array: unknown[] = [];
+    this.index++;
+    this.skipWhitespace();
+
+    while (this.text[this.index] !== ']') {
+      array.push(this.parseValue());
+      this.skipWhitespace();
+
+      if (this.text[this.index] === ']') break;
+
+      this.expect(',', '"," or "]"');
+      this.skipWhitespace();
+
+      if (this.syntax === 'json' && this.text[this.index] === ']') {
+        this.fail('Unexpected token "]", trailing commas are not allowed in JSON');
+      }
+    }
+
+    this.index++;
+    return array;
+  }
+
+  /**
+   * Parses a property name: a double-quoted string, or in JSON5 also a single-quoted string or an identifier.
+   * @returns The property name
+   */
+  private parseKey(): string {
+    const char = this.text[this.index];
+
+    if (char === '"' || (char === '\'' && this.syntax === 'json5')) {
+      return this.parseString();
+    }
+
+    if (this.syntax !== 'json5') {
+      this.fail(`Unexpected ${this.describe()}, expected a double-quoted property name`);
+    }
+
+    const pattern = /[$_\p{ID_Start}][$_\u200c\u200d\p{ID_Continue}]*/uy;
+    pattern.lastIndex = this.index;
+    const match = pattern.exec(this.text);
+
+    if (!match) {
+      this.fail(`Unexpected ${this.describe()}, expected a property name`);
+    }
+
+    this.index += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Parses a string enclosed in the quote of the current character, e.g. `"a\nb"`.
+   * @returns The unescaped string
+   */
+  private parseString(): string {
+    const quote = this.text[this.index++];
+    let value = '';
+
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+
+      if (char === quote) {
+        this.index++;
+        return value;
+      }
+
+      if (char === '\\') {
+        value += this.parseEscape();
+        continue;
+      }
+
+      // JSON strings exclude all control characters, JSON5 strings only line breaks
+      if (this.syntax === 'json5' && (char === '\n' || char === '\r')) {
+        this.fail('Unexpected line break in string');
+      }
+      if (this.syntax !== 'json5' && char < ' ') {
+        this.fail('Bad control character in string');
+      }
+
+      value += char;
+      this.index++;
+    }
+
+    this.fail('Unterminated string');
+  }
+
+  /**
+   * Parses an escape sequence of a string, e.g. `\n` or `\u00e9`.
+   * @returns The escaped character
+   */
+  private parseEscape(): string {
+    const escape = this.text[this.index + 1];
+
+    if (escape in JsonParser.ESCAPES) {
+      this.index += 2;
+      return JsonParser.ESCAPES[escape];
+    }
+
+    if (escape === 'u' && /^[\da-fA-F]{4}$/.test(this.text.slice(this.index + 2, this.index + 6))) {
+      this.index += 6;
+      return String.fromCharCode(Number.parseInt(this.text.slice(this.index - 4, this.index), 16));
+    }
+
+    if (this.syntax === 'json5' && escape !== undefined) {
+      return this.parseJson5Escape(escape);
+    }
+
+    this.fail('Bad escaped character in string', this.index + 1);
+  }
+
+  /**
+   * Parses the escape sequences JSON5 adds to JSON, e.g. `\x41`, `\v` or an escaped line break.
+   * @param escape - The character following the backslash
+   * @returns The escaped character (empty for an escaped line break)
+   */
+  private parseJson5Escape(escape: string): string {
+    if (escape === 'x' && /^[\da-fA-F]{2}$/.test(this.text.slice(this.index + 2, this.index + 4))) {
+      this.index += 4;
+      return String.fromCharCode(Number.parseInt(this.text.slice(this.index - 2, this.index), 16));
+    }
+
+    // Line continuation, e.g. 'first \<line break>second'
+    if (JsonParser.LINE_TERMINATORS.includes(escape)) {
+      this.index += this.text.startsWith('\r\n', this.index + 1) ? 3 : 2;
+      return '';
+    }
+
+    if (escape === 'x' || escape === 'u' || /[1-9]/.test(escape) || (escape === '0' && /\d/.test(this.text[this.index + 2] ?? ''))) {
+      this.fail('Bad escaped character in string', this.index + 1);
+    }
+
+    // Any other character escapes itself, e.g. \' or \a
+    this.index += 2;
+    return ({ v: '\v', 0: '\0' } as Record<string, string>)[escape] ?? escape;
+  }
+
+  /**
+   * Parses a literal keyword.
+   * @param literal - The keyword, e.g. `true`
+   * @param value - The value of the keyword
+   * @returns The value of the keyword
+   */
+  private parseLiteral<T>(literal: string, value: T): T {
+    for (const char of literal) {
+      if (this.text[this.index] !== char) {
+        this.fail(`Unexpected ${this.describe()}, expected "${literal}"`);
+      }
+      this.index++;
+    }
+
+    return value;
+  }
+
+  /**
+   * Parses a number, e.g. `-1.5e3`, or in JSON5 also `+.5`, `0x1F`, `Infinity` or `NaN`.
+   * @returns The parsed number
+   */
+  private parseNumber(): number {
+    const pattern = this.syntax === 'json5'
+      ? /[+-]?(?:Infinity|NaN|0[xX][\da-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y
+      : /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    pattern.lastIndex = this.index;
+    const match = pattern.exec(this.text);
+
+    if (!match) {
+      if (this.text[this.index] === '-' || (this.syntax === 'json5' && this.text[this.index] === '+')) {
+        this.index++;
+        this.fail(`Unexpected ${this.describe()}, expected a number after the sign`);
+      }
+      this.fail(`Unexpected ${this.describe()}, expected a JSON value`);
+    }
+
+    this.index += match[0].length;
+
+    // Number() does not accept signed hexadecimal numbers
+    return (match[0][0] === '-' ? -1 : 1) * Number(match[0].replace(/^[+-]/, ''));
+  }
+
+  /**
+   * Skips the whitespace allowed between tokens, and the comments of JSONC and JSON5.
+   */
+  private skipWhitespace(): void {
+    const whitespace = this.syntax === 'json5' ? /\s/ : /[ \t\n\r]/;
+
+    while (this.index < this.text.length) {
+      if (whitespace.test(this.text[this.index])) {
+        this.index++;
+      } else if (this.syntax !== 'json' && this.text.startsWith('//', this.index)) {
+        while (this.index < this.text.length && !JsonParser.LINE_TERMINATORS.includes(this.text[this.index])) {
+          this.index++;
+        }
+      } else if (this.syntax !== 'json' && this.text.startsWith('/*', this.index)) {
+        const end = this.text.indexOf('*/', this.index + 2);
+        if (end === -1) {
+          this.fail('Unterminated comment');
+        }
+        this.index = end + 2;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Reads the expected character.
+   * @param char - The expected character
+   * @param description - Description of the expected characters in the error message
+   */
+  private expect(char: string, description: string = `"${char}"`): void {
+    if (this.text[this.index] !== char) {
+      this.fail(`Unexpected ${this.describe()}, expected ${description}`);
+    }
+    this.index++;
+  }
+
+  /**
+   * Describes the current character in error messages.
+   * @returns The description, e.g. `token "}"` or `end of input`
+   */
+  private describe(): string {
+    return this.index < this.text.length ? `token ${JSON.stringify(this.text[this.index])}` : 'end of input';
+  }
+
+  /**
+   * Throws a syntax error.
+   * @param message - Description of the error
+   * @param index - Index of the offending character (default: the current character)
+   */
+  private fail(message: string, index: number = this.index): never {
+    throw new JsonSyntaxError(message, index);
+  }
+}
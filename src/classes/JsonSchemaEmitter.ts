@@ -0,0 +1,186 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConvertOptions, JsonSchema } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { DeclarationNode, TypeModel, TypeNode } from '~/typings/model';
+
+/**
+ * Built-in emitter rendering the type model as a JSON Schema (draft 2020-12) document.
+ *
+ * @example
+ * ```typescript
+ * const model = new TypeInferrer().infer([{ id: 1 }], 'User', 'root');
+ * new JsonSchemaEmitter().emit(model, 'root');
+ * // { "$schema": "https://json-schema.org/draft/2020-12/schema", "title": "User", "type": "object", ... }
+ * ```
+ */
+export default class JsonSchemaEmitter implements Emitter {
+  /**
+   * URI of the JSON Schema dialect used by the generated documents.
+   */
+  public static readonly SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+  /**
+   * Keyword types that map directly to a JSON Schema `type`.
+   */
+  private static readonly SIMPLE_TYPES: Record<string, string> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'boolean',
+    null: 'null',
+    bigint: 'integer',
+  };
+
+  /**
+   * Name of the root declaration, inlined at the top level of the document.
+   * References to it point at the document itself (`#`), as it has no `$defs` entry.
+   */
+  private rootDeclaration: string | null = null;
+
+  /**
+   * Creates an instance of JsonSchemaEmitter.
+   * @param options Configuration options for the rendering process.
+   */
+  public constructor(private options: ConvertOptions = {}) {
+  }
+
+  /**
+   * Builds the JSON Schema document from the type model.
+   *
+   * The root declaration is inlined at the top level of the document,
+   * while every other declaration is placed under `$defs`.
+   *
+   * @param model - The type model to render
+   * @returns The JSON Schema document as a formatted JSON string
+   */
+  public emit({ rootName, declarations }: TypeModel): string {
+    const schema: JsonSchema = {
+      $schema: JsonSchemaEmitter.SCHEMA_DIALECT,
+      title: rootName,
+    };
+
+    const [root, ...definitions] = declarations;
+    this.rootDeclaration = root?.name ?? null;
+
+    if (!root) {
+      return JSON.stringify({ ...schema, ...(this.options.strict ? { type: 'null' } : { type: 'object' }) }, null, 2);
+    }
+
+    Object.assign(schema, this.declarationToSchema(root));
+
+    if (definitions.length) {
+      schema.$defs = Object.fromEntries(definitions.map(declaration => [declaration.name, this.declarationToSchema(declaration)]));
+    }
+
+    return JSON.stringify(schema, null, 2);
+  }
+
+  /**
+   * Converts a declaration of the type model into a schema.
+   *
+   * @param declaration - The interface, type alias or enum declaration
+   * @returns The schema describing the declaration
+   */
+  private declarationToSchema(declaration: DeclarationNode): JsonSchema {
+    if (declaration.kind === 'alias') {
+      return this.typeToSchema(declaration.type);
+    }
+
+    if (declaration.kind === 'enum') {
+      return { enum: declaration.members.map(({ value }) => value) };
+    }
+
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const { key, type, optional } of declaration.properties) {
+      properties[key] = this.typeToSchema(type);
+
+      if (this.options.readonlyProperties) {
+        properties[key].readOnly = true;
+      }
+
+      if (!optional && !this.options.optionalProperties) {
+        required.push(key);
+      }
+    }
+
+    if (declaration.additionalProperties) {
+      return { type: 'object', properties, required, additionalProperties: this.typeToSchema(declaration.additionalProperties) };
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required,
+      ...(this.options.strict ? { additionalProperties: false } : {}),
+    };
+  }
+
+  /**
+   * Converts a type node into a schema.
+   *
+   * Types without a JSON representation (e.g. `any`, `symbol` or custom type mappings)
+   * produce the empty schema, which accepts any value.
+   *
+   * @param node - The type node to convert
+   * @returns The schema describing the type
+   */
+  private typeToSchema(node: TypeNode): JsonSchema {
+    switch (node.kind) {
+      case 'keyword': {
+        const type = JsonSchemaEmitter.SIMPLE_TYPES[node.name];
+        if (type) return { type };
+        return node.name === 'object' ? { type: 'object' } : {};
+      }
+      case 'reference':
+        return { $ref: node.name === this.rootDeclaration ? '#' : `#/$defs/${node.name}` };
+      case 'array':
+        return { type: 'array', items: this.typeToSchema(node.element) };
+      case 'tuple':
+        return {
+          type: 'array',
+          prefixItems: node.elements.map(element => this.typeToSchema(element)),
+          items: false,
+          minItems: node.elements.length,
+        };
+      case 'literal':
+        return { const: node.value };
+      case 'format':
+        return node.format === 'numeric'
+          ? { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' }
+          : { type: 'string', format: node.format };
+      case 'union': {
+        // Unions of literals (and null) are rendered as an enumeration, e.g. ["active", "banned", null]
+        if (node.types.every(type => type.kind === 'literal' || (type.kind === 'keyword' && type.name === 'null'))) {
+          return { enum: node.types.map(type => type.kind === 'literal' ? type.value : null) };
+        }
+
+        const members = node.types.map(type => this.typeToSchema(type));
+
+        // Members consisting of a type only are merged into a type list, e.g. ["string", "null"]
+        if (members.every(member => Object.keys(member).length === 1 && typeof member.type === 'string')) {
+          return { type: members.map(member => member.type as string) };
+        }
+
+        return { anyOf: members };
+      }
+      case 'intersection':
+        return { allOf: node.types.map(type => this.typeToSchema(type)) };
+      case 'raw': {
+        if (node.text === 'Date') return { type: 'string', format: 'date-time' };
+
+        const parsed = TypeNodeUtils.fromTypeString(node.text);
+        return parsed.kind !== 'raw' ? this.typeToSchema(parsed) : {};
+      }
+    }
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// classes
+import ConversionError from '~/classes/ConversionError';
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import StringUtils from '~/utils/StringUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConversionWarning, ConvertOptions, ExportType, JsonSchema } from '~/typings/global';
+import type { DeclarationNode, PropertyNode, TypeModel, TypeNode } from '~/typings/model';
+
+/**
+ * Reads a JSON Schema document into the type model used by the output targets.
+ *
+ * This is the schema counterpart of `TypeInferrer`: instead of inferring declarations
+ * from sample values, it derives them from the keywords of the schema, so that
+ * schema-based and sample-based generation share the same emitters and output style.
+ *
+ * Supported keywords:
+ * - `type` (including type lists), `enum` and `const`
+ * - `properties`, `required` and `additionalProperties`
+ * - `items`, `prefixItems` (and draft-04 style `items` arrays as tuples)
+ * - `oneOf`, `anyOf` (unions) and `allOf` (merged objects, or intersections)
+ * - `$ref` to local definitions under `$defs` or `definitions`
+ *
+ * A `$ref` that cannot be resolved, or points to another document, fails the conversion
+ * with the `UNRESOLVED_REFERENCE` error. Type aliases referring to each other in a cycle
+ * (e.g. `type A = B; type B = A;`) are broken with `any` (`unknown` in strict mode) and a warning.
+ *
+ * @example
+ * ```typescript
+ * const model = new JsonSchemaReader().read({
+ *   type: 'object',
+ *   properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } },
+ *   required: ['id'],
+ * }, 'User', 'root');
+ * // interface User { id: number; tags?: string[]; }
+ * ```
+ */
+export default class JsonSchemaReader {
+  /**
+   * JSON Schema types and their keyword type counterparts.
+   */
+  private static readonly SIMPLE_TYPES: Record<string, TypeNode> = {
+    string: TypeNodeUtils.keyword('string'),
+    number: TypeNodeUtils.keyword('number'),
+    integer: TypeNodeUtils.keyword('number'),
+    boolean: TypeNodeUtils.keyword('boolean'),
+    null: TypeNodeUtils.keyword('null'),
+  };
+
+  /**
+   * Generated declarations, keyed by name, in order of completion.
+   */
+  private declarations: Map<string, DeclarationNode> = new Map();
+
+  /**
+   * Declaration names assigned to the resolved `$ref` pointers.
+   * A name is assigned before the definition is read, so circular references resolve to it.
+   */
+  private references: Map<string, string> = new Map();
+
+  /**
+   * Declaration names already taken, including those still being read.
+   */
+  private names: Set<string> = new Set();
+
+  /**
+   * Name of the root declaration, referenced by the `#` pointer.
+   */
+  private rootName: string = '';
+
+  /**
+   * The schema document being read, used to resolve `$ref` pointers.
+   */
+  private document: JsonSchema = {};
+
+  /**
+   * Whether the generated declarations are exported.
+   */
+  private exportAll: boolean = false;
+
+  /**
+   * Warnings of the last read: type alias cycles typed as `any`.
+   */
+  public warnings: ConversionWarning[] = [];
+
+  /**
+   * Creates an instance of JsonSchemaReader.
+   * @param options Configuration options for the conversion process.
+   */
+  public constructor(private options: ConvertOptions = {}) {
+  }
+
+  /**
+   * Reads the declarations described by a JSON Schema document.
+   *
+   * An object schema at the root produces the root interface, any other root schema
+   * produces a type alias (e.g. `type RootObject = string[]`).
+   *
+   * @param schema - The parsed JSON Schema document
+   * @param rootName - Name for the root declaration
+   * @param exportType - Export mode configuration
+   * @returns The type model, root declaration first
+   */
+  public read(schema: unknown, rootName: string, exportType: ExportType = 'root'): TypeModel {
+    this.declarations.clear();
+    this.references.clear();
+    this.rootName = rootName;
+    this.names = new Set([rootName]);
+    this.document = this.isSchema(schema) ? schema : {};
+    this.exportAll = exportType === 'all';
+    this.warnings = [];
+
+    if (this.isObjectSchema(this.document)) {
+      this.readObject(this.document, rootName, []);
+    } else {
+      this.declarations.set(rootName, { kind: 'alias', name: rootName, type: this.readType(this.document, rootName, []), exported: this.exportAll, path: '' });
+      this.breakAliasCycle(rootName, []);
+    }
+
+    // Reverse the order so the root comes first, followed by its dependencies
+    const declarations = Array.from(this.declarations.values()).reverse();
+
+    for (const declaration of declarations) {
+      if (declaration.name === rootName && exportType === 'root') {
+        declaration.exported = true;
+      }
+    }
+
+    return { rootName, declarations };
+  }
+
+  /**
+   * Determines the type node described by a schema.
+   *
+   * @param schema - The schema to read
+   * @param nameHint - Preferred name for any interface generated for the schema
+   * @param path - JSON key path of the values described by the schema
+   * @returns The type node
+   */
+  private readType(schema: unknown, nameHint: string, path: string[]): TypeNode {
+    // Boolean schemas: `true` accepts anything, `false` accepts nothing
+    if (typeof schema === 'boolean') {
+      return schema ? this.fallbackType() : { kind: 'raw', text: 'never' };
+    }
+
+    if (!this.isSchema(schema)) {
+      return this.fallbackType();
+    }
+
+    if (typeof schema.$ref === 'string') {
+      return this.readReference(schema.$ref, path);
+    }
+
+    if (schema.const !== undefined) {
+      return this.literalType(schema.const);
+    }
+
+    if (Array.isArray(schema.enum)) {
+      return TypeNodeUtils.union(schema.enum.map(value => this.literalType(value)), this.fallbackType());
+    }
+
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants)) {
+      return TypeNodeUtils.union(variants.map(variant => this.readType(variant, nameHint, path)), this.fallbackType());
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      return this.readAllOf(schema.allOf, nameHint, path);
+    }
+
+    if (Array.isArray(schema.type)) {
+      return TypeNodeUtils.union(schema.type.map(type => this.readType({ ...schema, type }, nameHint, path)), this.fallbackType());
+    }
+
+    if (this.isObjectSchema(schema)) {
+      return TypeNodeUtils.reference(this.readObject(schema, this.toDeclarationName(schema, nameHint), path));
+    }
+
+    if (schema.type === 'array' || schema.items !== undefined || schema.prefixItems !== undefined) {
+      return this.readArray(schema, nameHint, path);
+    }
+
+    return typeof schema.type === 'string' && Object.hasOwn(JsonSchemaReader.SIMPLE_TYPES, schema.type)
+      ? JsonSchemaReader.SIMPLE_TYPES[schema.type]
+      : this.fallbackType();
+  }
+
+  /**
+   * Generates the interface declaration of an object schema.
+   *
+   * @param schema - The object schema
+   * @param name - Name of the interface
+   * @param path - JSON key path of the objects described by the schema
+   * @returns The name of the generated interface
+   */
+  private readObject(schema: JsonSchema, name: string, path: string[]): string {
+    this.names.add(name);
+
+    const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+    const properties: PropertyNode[] = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+      const type = this.readType(property, this.capitalize(key), [...path, key]);
+      return {
+        key,
+        type,
+        optional: !required.has(key),
+        readonly: this.options.readonlyProperties ?? false,
+        nullable: TypeNodeUtils.isNullable(type),
+        path: ConverterUtils.toPathString([...path, key]),
+      };
+    });
+
+    const additional = schema.additionalProperties;
+    let additionalProperties: TypeNode | undefined;
+
+    if (this.isSchema(additional)) {
+      // An index signature must also accept the type of every declared property
+      additionalProperties = TypeNodeUtils.union([
+        this.readType(additional, `${name}Value`, [...path, '*']),
+        ...properties.map(({ type, optional }) => optional ? TypeNodeUtils.union([type, TypeNodeUtils.keyword('undefined')]) : type),
+      ]);
+    } else if (!properties.length && additional !== false) {
+      additionalProperties = TypeNodeUtils.keyword('unknown');
+    }
+
+    this.declarations.set(name, {
+      kind: 'interface',
+      name,
+      properties,
+      ...(additionalProperties ? { additionalProperties } : {}),
+      exported: this.exportAll,
+      path: ConverterUtils.toPathString(path),
+    });
+
+    return name;
+  }
+
+  /**
+   * Determines the array or tuple type described by an array schema.
+   *
+   * @param schema - The array schema
+   * @param nameHint - Property name used for naming the element interface
+   * @param path - JSON key path of the arrays described by the schema
+   * @returns The array or tuple type node
+   */
+  private readArray(schema: JsonSchema, nameHint: string, path: string[]): TypeNode {
+    const singular = StringUtils.singularize(nameHint);
+    const elementName = singular !== nameHint ? singular : `${nameHint}Item`;
+    const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : null;
+
+    if (tuple) {
+      return { kind: 'tuple', elements: tuple.map(element => this.readType(element, elementName, [...path, '[]'])) };
+    }
+
+    return TypeNodeUtils.array(schema.items === undefined ? this.fallbackType() : this.readType(schema.items, elementName, [...path, '[]']));
+  }
+
+  /**
+   * Determines the type described by an `allOf` list.
+   * Object members (including referenced ones) are merged into a single interface,
+   * any other combination is kept as an intersection.
+   *
+   * @param members - The `allOf` subschemas
+   * @param nameHint - Preferred name for the merged interface
+   * @param path - JSON key path of the values described by the subschemas
+   * @returns The type node
+   */
+  private readAllOf(members: unknown[], nameHint: string, path: string[]): TypeNode {
+    const resolved = members.map(member => this.isSchema(member) && typeof member.$ref === 'string' ? this.resolvePointer(member.$ref) : member);
+
+    if (resolved.every(member => this.isSchema(member) && this.isObjectSchema(member))) {
+      const schemas = resolved as JsonSchema[];
+      const merged: JsonSchema = {
+        type: 'object',
+        properties: Object.assign({}, ...schemas.map(schema => schema.properties ?? {})),
+        required: schemas.flatMap(schema => Array.isArray(schema.required) ? schema.required : []),
+      };
+      return TypeNodeUtils.reference(this.readObject(merged, this.toDeclarationName({}, nameHint), path));
+    }
+
+    return TypeNodeUtils.intersection(members.map(member => this.readType(member, nameHint, path)));
+  }
+
+  /**
+   * Resolves a `$ref` into a reference to the declaration generated for its target.
+   *
+   * @param pointer - The `$ref` value, e.g. `#/$defs/Address`
+   * @param path - JSON key path of the values first referring to the schema
+   * @returns The type node of the referenced schema
+   * @throws {ConversionError} With the `UNRESOLVED_REFERENCE` code if the target cannot be resolved
+   */
+  private readReference(pointer: string, path: string[]): TypeNode {
+    if (pointer === '#') return TypeNodeUtils.reference(this.rootName);
+
+    const existing = this.references.get(pointer);
+    if (existing) return TypeNodeUtils.reference(existing);
+
+    const target = this.resolvePointer(pointer);
+    if (target === undefined) {
+      const location = path.length ? `"${ConverterUtils.toPathString(path)}"` : 'the root';
+      const reason = pointer.startsWith('#') ? 'no such definition in the document' : 'only local references (starting with "#") are supported';
+      throw new ConversionError('UNRESOLVED_REFERENCE', `Unresolved $ref "${pointer}" at ${location}: ${reason}`);
+    }
+
+    const name = this.toDeclarationName(this.isSchema(target) ? target : {}, pointer.split('/').pop() ?? '');
+    this.references.set(pointer, name);
+    this.names.add(name);
+
+    if (this.isSchema(target) && this.isObjectSchema(target)) {
+      return TypeNodeUtils.reference(this.readObject(target, name, path));
+    }
+
+    this.declarations.set(name, { kind: 'alias', name, type: this.readType(target, name, path), exported: this.exportAll, path: ConverterUtils.toPathString(path) });
+    this.breakAliasCycle(name, path);
+
+    return TypeNodeUtils.reference(name);
+  }
+
+  /**
+   * Breaks a cycle of type aliases referring to each other directly or through unions,
+   * e.g. `type A = B; type B = A;`, which TypeScript rejects as circular. The alias closing
+   * the cycle is typed as `any` (`unknown` in strict mode). Cycles through interfaces or arrays are valid.
+   *
+   * @param name - Name of the type alias just generated
+   * @param path - JSON key path of the values first referring to the alias
+   */
+  private breakAliasCycle(name: string, path: string[]): void {
+    const declaration = this.declarations.get(name);
+
+    if (declaration?.kind !== 'alias' || !this.refersTo(declaration.type, name, new Set())) return;
+
+    declaration.type = this.fallbackType();
+    this.warnings.push(ConverterUtils.createWarning('CIRCULAR_REFERENCE', path, `type alias "${name}" refers to itself, typed as ${TypeNodeUtils.toString(declaration.type)}`));
+  }
+
+  /**
+   * Checks whether a type refers to a declaration directly, through unions and intersections or through other type aliases.
+   *
+   * @param node - The type node to check
+   * @param name - Name of the declaration
+   * @param visited - Names of the type aliases already followed
+   * @returns true if the type refers to the declaration
+   */
+  private refersTo(node: TypeNode, name: string, visited: Set<string>): boolean {
+    if (node.kind === 'union' || node.kind === 'intersection') return node.types.some(type => this.refersTo(type, name, visited));
+    if (node.kind !== 'reference') return false;
+    if (node.name === name) return true;
+    if (visited.has(node.name)) return false;
+
+    visited.add(node.name);
+    const target = this.declarations.get(node.name);
+
+    return target?.kind === 'alias' && this.refersTo(target.type, name, visited);
+  }
+
+  /**
+   * Resolves a local JSON pointer (e.g. `#/$defs/Address`) against the document.
+   *
+   * @param pointer - The JSON pointer
+   * @returns The target schema, or undefined if it cannot be resolved
+   */
+  private resolvePointer(pointer: string): unknown {
+    if (!pointer.startsWith('#')) return undefined;
+
+    return pointer.slice(1).split('/').filter(Boolean).reduce<unknown>((target, segment) => {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      return this.isSchema(target) ? target[key] : undefined;
+    }, this.document);
+  }
+
+  /**
+   * Derives a unique declaration name from the schema `title`, or else from the given hint.
+   *
+   * @param schema - The schema of the declaration
+   * @param nameHint - The preferred name
+   * @returns The unique declaration name
+   */
+  private toDeclarationName(schema: JsonSchema, nameHint: string): string {
+    const baseName = ConverterUtils.toInterfaceName(typeof schema.title === 'string' ? schema.title : nameHint);
+    return ConverterUtils.generateUniqueName(baseName, this.names, '');
+  }
+
+  /**
+   * Creates the type node of an `enum` or `const` value.
+   *
+   * @param value - The literal value
+   * @returns The literal type node, or the fallback type for non-primitive values
+   */
+  private literalType(value: unknown): TypeNode {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      return TypeNodeUtils.literal(value as string | number | boolean | null);
+    }
+
+    return this.fallbackType();
+  }
+
+  /**
+   * Type used for schemas that do not constrain the value.
+   */
+  private fallbackType(): TypeNode {
+    return TypeNodeUtils.keyword(this.options.strict ? 'unknown' : 'any');
+  }
+
+  /**
+   * Checks whether a schema describes an object with named or additional properties.
+   *
+   * @param schema - The schema to check
+   * @returns true if the schema produces an interface
+   */
+  private isObjectSchema(schema: JsonSchema): boolean {
+    return schema.type === 'object' || (schema.type === undefined && this.isSchema(schema.properties));
+  }
+
+  /**
+   * Checks whether a value is a (non-boolean) schema object.
+   *
+   * @param value - The value to check
+   * @returns true if the value is a schema object
+   */
+  private isSchema(value: unknown): value is JsonSchema {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Sanitizes and capitalizes a property key for interface naming.
+   *
+   * @param str - String to process
+   * @returns Sanitized string suitable for interface names
+   */
+  private capitalize(str: string): string {
+    const sanitizedKey = str.replace(/[^a-zA-Z0-9_$]/g, '');
+    return sanitizedKey.charAt(0).toUpperCase() + sanitizedKey.slice(1);
+  }
+}
@@ -6,24 +6,32 @@
 
 // base
 import ConverterBase from '~/base/ConverterBase';
+import ModelConverterBase from '~/base/ModelConverterBase';
 
-// utils
-import ConverterUtils from '~/utils/ConverterUtils';
+// classes
+import TypeScriptEmitter from '~/classes/TypeScriptEmitter';
+import TypeScriptFactoryEmitter from '~/classes/TypeScriptFactoryEmitter';
 
 // types
 import type { ExportType, ConvertOptions } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { TypeModel } from '~/typings/model';
 
 /**
  * A utility class that converts JSON objects into flattened TypeScript interfaces.
  * This converter embeds all nested object properties into a single interface definition,
  * eliminating the need for separate interface definitions for nested structures.
+ * The type model is inferred by `TypeInferrer`, like for `JsonToTsConverter`, and rendered
+ * by `TypeScriptEmitter` (or `TypeScriptFactoryEmitter`) in its inline mode.
  *
  * Key features:
  * - Converts JSON objects to TypeScript interfaces
  * - Embeds nested objects into the main interface
  * - Handles arrays and primitive types appropriately
+ * - Merges all elements of object arrays into one element type (optional keys, union types)
  * - Prevents infinite recursion with circular reference detection
  * - Supports custom interface names and export types
+ * - Reads JSON Schema documents and renders through custom emitters (`emitter` option)
  *
  * @example
  * Input JSON:
@@ -53,20 +61,13 @@ import type { ExportType, ConvertOptions } from '~/typings/global';
  * }
  * ```
  */
-export default class JsonToFlattenedTsConverter extends ConverterBase {
-  /**
-   * Tracks visited objects during conversion to prevent infinite recursion
-   * when circular references are encountered in the input JSON.
-   * Uses WeakSet to avoid memory leaks for objects that are no longer referenced.
-   */
-  private visitedObjects = new WeakSet<object>();
-
+export default class JsonToFlattenedTsConverter extends ModelConverterBase {
   /**
    * Creates an instance of JsonToFlattenedTsConverter.
    * @param options Configuration options for the conversion process.
    */
-  private constructor(private options: ConvertOptions = {}) {
-    super();
+  private constructor(options: ConvertOptions = {}) {
+    super(options);
   }
 
   /**
@@ -112,129 +113,59 @@ export default class JsonToFlattenedTsConverter extends ConverterBase {
   }
 
   /**
-   * Generates the TypeScript interface code from parsed JSON data.
+   * Converts several JSON samples into a single flattened TypeScript interface.
+   * Properties absent from some samples are marked optional, and differing
+   * value types are combined into unions.
    *
-   * @param jsonData - The parsed JSON object to convert.
-   * @param interfaceName - Name for the generated interface.
-   * @param exportType - Type of export ('root' or 'interface').
-   * @returns The complete TypeScript interface code.
+   * @param samples - The JSON samples to convert. Each can be an object or a JSON string.
+   * @param interfaceName - Name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType - Type of export ('root' or 'interface'). Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated TypeScript interface as a string, or null if input is invalid.
    */
-  protected convertJson(jsonData: unknown, interfaceName: string, exportType: ExportType = 'root'): string {
-    const exports = exportType !== 'none' ? 'export ' : '';
-    const safeInterfaceName = ConverterUtils.toInterfaceName(interfaceName);
-
-    if (typeof jsonData !== 'object' || jsonData === null) {
-      return exports + `interface ${safeInterfaceName} {}`;
-    }
-
-    // Reset the visited set for each conversion run
-    this.visitedObjects = new WeakSet<object>();
-
-    const interfaceBody = this.generateObjectBody(jsonData, 0).trim();
-
-    return exports + `interface ${safeInterfaceName} ${interfaceBody}`.replace(/\[]$/, '');
+  public static convertSamples(samples: (unknown | string)[], interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSamples(samples, interfaceName, exportType, options);
   }
 
   /**
-   * Recursively generates TypeScript type definitions for objects and their properties.
-   * Embeds nested objects into the current interface definition.
+   * Converts a JSON Schema document into a single flattened TypeScript interface.
    *
-   * @param obj - The object or value to convert to a TypeScript type.
-   * @param indentLevel - Current indentation level for formatting the output.
-   * @returns A string containing the TypeScript type definition.
+   * @param schema - JSON Schema document as an object or string
+   * @param interfaceName - Name for the generated interface. Defaults to 'RootObject'.
+   * @param exportType - Type of export ('root' or 'interface'). Defaults to 'root'.
+   * @param options Configuration options for the conversion process.
+   * @returns The generated TypeScript interface as a string, or null if input is invalid.
    */
-  private generateObjectBody(obj: any, indentLevel: number): string {
-    const indent = this.getIndent(indentLevel);
-    const nextIndent = this.getIndent(indentLevel + 1);
-
-    // Handle arrays
-    if (Array.isArray(obj) && obj.length) {
-      // Check if array contains only primitives or mixed types
-      const containsOnlyPrimitives = obj.every(item => item === null || typeof item !== 'object');
-
-      if (containsOnlyPrimitives) {
-        // Use ArrayUtil to detect the array type (including tuple detection)
-        const maxTupleSize = this.options.arrayMaxTupleSize ?? 10;
-        const minTupleSize = this.options.arrayMinTupleSize ?? 2;
-        return ConverterUtils.detectTypeFromArray(obj, maxTupleSize, minTupleSize);
-      }
-
-      // For arrays with objects, use the first element's type as the representative
-      const elementType = this.getType(obj[0], indentLevel);
-      return `${elementType}[]`;
-    }
-
-    const basicType = ConverterUtils.detectJsTypeFromObject(obj);
-
-    if ( basicType !== null ) return basicType;
-
-    // --- Handle Objects ---
-    // Check for circular references
-    if (this.visitedObjects.has(obj)) {
-      return this.options.strict ? 'unknown' : 'any'; // Fallback for circular references
-    }
-
-    // Mark object as visited to detect cycles
-    this.visitedObjects.add(obj);
-
-    let body = '';
-    const keys = Object.keys(obj);
-
-    // Include symbol properties if they exist
-    const symbolKeys = Object.getOwnPropertySymbols(obj);
-    if (symbolKeys.length > 0) {
-      // Add symbol properties with their key.toString()
-      for (const symKey of symbolKeys) {
-        const value = obj[symKey];
-        const type = this.getType(value, indentLevel + 1);
-        const symbolName = symKey.toString().replace('Symbol(', '').replace(')', '');
-        body += `${nextIndent}[${symbolName}]: ${type};\n`;
-      }
-    }
-
-    for (const key of keys) {
-      const value = obj[key];
-      const type = this.getType(value, indentLevel + 1);
-      body += `${nextIndent}${ConverterUtils.formatPropertyValue(key, type, this.options)};\n`;
-    }
-
-    // Remove object from visited set after processing
-    this.visitedObjects.delete(obj);
-
-    // Handle empty objects
-    if (keys.length === 0 && symbolKeys.length === 0) {
-      return '{}';
-    }
-
-    // Return the embedded object definition
-    return `{\n${body.trimEnd()}\n${indent}}`;
+  public static convertSchema(schema: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSchema(schema, interfaceName, exportType, options);
   }
 
   /**
-   * Determines the appropriate TypeScript type for a given value.
-   * Delegates to generateObjectBody for complex types (objects and arrays).
+   * Renders the type model as a single declaration. Nested declarations are embedded,
+   * so only the root declaration is reported and name collisions are not warned about,
+   * unless the model is rendered by a custom emitter.
    *
-   * @param value - The value to analyze for type determination.
-   * @param indentLevel - Current indentation level for formatting.
-   * @returns The TypeScript type string for the given value.
+   * @param model The type model, root declaration first.
+   * @param exportType Export strategy for generated interfaces.
+   * @returns The rendered output.
    */
-  private getType(value: any, indentLevel: number): string {
-    if (value === null || typeof value !== 'object') {
-      // Direct handling for primitives and null
-      return this.generateObjectBody(value, indentLevel);
+  protected renderModel(model: TypeModel, exportType: ExportType): string {
+    const code = super.renderModel(model, exportType);
+
+    if (!this.options.emitter) {
+      this.declarationNames = [model.rootName];
+      this.warnings = this.warnings.filter(warning => warning.code !== 'NAME_COLLISION');
     }
-    // Delegate to main recursive logic for objects and arrays
-    return this.generateObjectBody(value, indentLevel);
+
+    return code;
   }
 
   /**
-   * Creates an indentation string based on the specified level.
-   * Uses two spaces per indentation level for consistent formatting.
-   *
-   * @param level - The number of indentation levels.
-   * @returns A string containing the appropriate number of spaces.
+   * Creates the built-in emitter embedding the nested declarations, according to the `emitMode` option.
    */
-  private getIndent(level: number): string {
-    return '  '.repeat(level);
+  protected createEmitter(): Emitter {
+    return this.options.emitMode === 'factory'
+      ? new TypeScriptFactoryEmitter(this.options, true)
+      : new TypeScriptEmitter(this.options, true);
   }
 }
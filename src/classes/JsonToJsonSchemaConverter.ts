@@ -0,0 +1,122 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// base
+import ConverterBase from '~/base/ConverterBase';
+import ModelConverterBase from '~/base/ModelConverterBase';
+
+// classes
+import JsonSchemaEmitter from '~/classes/JsonSchemaEmitter';
+
+// types
+import type { ConvertOptions, ExportType } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+
+/**
+ * Converts JSON data into a JSON Schema (draft 2020-12) document.
+ *
+ * Walks the same type inference as `JsonToTsConverter`, so the generated schema always
+ * describes the same structure as the generated TypeScript interfaces: every nested
+ * interface becomes an entry of `$defs`, arrays and tuples are described with `items`
+ * and `prefixItems`, and properties missing from some samples are left out of `required`.
+ *
+ * Key Features:
+ * - Nested objects emitted as `$defs` entries referenced through `$ref`
+ * - Tuple detection mapped to `prefixItems`
+ * - Optional properties and union types (e.g. `string | null`) preserved
+ * - `additionalProperties: false` in strict mode
+ * - Multiple JSON samples merged into one schema via `convertSamples()`
+ *
+ * @example
+ * ```typescript
+ * const schema = JsonToJsonSchemaConverter.convert({ id: 1, tags: ['a'] }, 'User');
+ * // {
+ * //   "$schema": "https://json-schema.org/draft/2020-12/schema",
+ * //   "title": "User",
+ * //   "type": "object",
+ * //   "properties": {
+ * //     "id": { "type": "number" },
+ * //     "tags": { "type": "array", "items": { "type": "string" } }
+ * //   },
+ * //   "required": ["id", "tags"]
+ * // }
+ * ```
+ */
+export default class JsonToJsonSchemaConverter extends ModelConverterBase {
+  /**
+   * URI of the JSON Schema dialect used by the generated documents.
+   */
+  public static readonly SCHEMA_DIALECT = JsonSchemaEmitter.SCHEMA_DIALECT;
+
+  /**
+   * Creates an instance of JsonToJsonSchemaConverter.
+   * @param options Configuration options for the conversion process.
+   */
+  private constructor(options: ConvertOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Converts JSON data into a JSON Schema document.
+   *
+   * @param jsonData - JSON object or string to convert
+   * @param interfaceName - Title of the schema and name of the root type (default: 'RootObject')
+   * @param exportType - Unused by this target, kept for API compatibility (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns The JSON Schema document as a formatted JSON string, or null if parsing fails
+   *
+   * @example
+   * ```typescript
+   * const schema = JsonToJsonSchemaConverter.convert('{"name": "John"}', 'Person', 'root', { strict: true });
+   * ```
+   */
+  public static convert(jsonData: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convert(jsonData, interfaceName, exportType, options);
+  }
+
+  /**
+   * Factory method to create converter instance.
+   */
+  protected static createConverter(options: ConvertOptions): ConverterBase {
+    return new JsonToJsonSchemaConverter(options);
+  }
+
+  /**
+   * Converts several JSON samples into a single JSON Schema document.
+   * Properties absent from some samples are not required,
+   * and differing value types are combined.
+   *
+   * @param samples - JSON objects or strings to convert
+   * @param interfaceName - Title of the schema and name of the root type (default: 'RootObject')
+   * @param exportType - Unused by this target, kept for API compatibility (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns The JSON Schema document as a formatted JSON string, or null if parsing fails
+   */
+  public static convertSamples(samples: (unknown | string)[], interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSamples(samples, interfaceName, exportType, options);
+  }
+
+  /**
+   * Normalizes a JSON Schema document: the declarations read from the schema
+   * are emitted again as a draft 2020-12 document.
+   *
+   * @param schema - JSON Schema document as an object or string
+   * @param interfaceName - Title of the schema and name of the root type (default: 'RootObject')
+   * @param exportType - Unused by this target, kept for API compatibility (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns The JSON Schema document as a formatted JSON string, or null if parsing fails
+   */
+  public static convertSchema(schema: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSchema(schema, interfaceName, exportType, options);
+  }
+
+  /**
+   * Creates the emitter rendering the type model as a JSON Schema document.
+   */
+  protected createEmitter(): Emitter {
+    return new JsonSchemaEmitter(this.options);
+  }
+}
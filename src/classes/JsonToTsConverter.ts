@@ -6,12 +6,15 @@
 
 // base
 import ConverterBase from '~/base/ConverterBase';
+import ModelConverterBase from '~/base/ModelConverterBase';
 
-// utils
-import ConverterUtils from '~/utils/ConverterUtils';
+// classes
+import TypeScriptEmitter from '~/classes/TypeScriptEmitter';
+import TypeScriptFactoryEmitter from '~/classes/TypeScriptFactoryEmitter';
 
 // types
 import type { ConvertOptions, ExportType } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
 
 /**
  * Converts JSON data into TypeScript interface definitions with advanced type inference.
@@ -28,9 +31,14 @@ import type { ConvertOptions, ExportType } from '~/typings/global';
  * - Flexible export modes (root, all, none) for different use cases
  * - Automatic type inference for JSON primitives
  * - Advanced array type detection with tuple types for mixed arrays
+ * - Object arrays merged into a single element interface (optional keys, union types)
+ * - Multiple JSON samples merged into one set of interfaces via `convertSamples()`
+ * - Deterministic interface name collision handling based on structural comparison
+ * - Optional structural deduplication of identical interfaces (shared references or type aliases)
  * - Configurable array tuple size limits for optimal type representation
  * - Strict type checking mode for more precise type inference
  * - Custom type mapping for overriding default type detection
+ * - Optional runtime type-guard functions (e.g. `isUser(value): value is User`)
  *
  * @example
  * ```typescript
@@ -57,30 +65,13 @@ import type { ConvertOptions, ExportType } from '~/typings/global';
  * console.log(tsInterface);
  * ```
  */
-export default class JsonToTsConverter extends ConverterBase {
-  /**
-   * Cache storing generated TypeScript interface definitions.
-   *
-   * Maps interface names to their complete definition strings. This prevents duplicate
-   * interface generation and maintains proper dependency ordering when assembling
-   * the final output.
-   */
-  private interfaces: Map<string, string> = new Map();
-
-  /**
-   * Tracks visited objects to detect circular references.
-   *
-   * Uses WeakSet to avoid memory leaks while preventing infinite recursion
-   * when objects reference themselves or create circular dependencies.
-   */
-  private visitedObjects = new WeakSet<object>();
-
+export default class JsonToTsConverter extends ModelConverterBase {
   /**
    * Creates an instance of JsonToTsConverter.
    * @param options Configuration options for the conversion process.
    */
-  private constructor(private options: ConvertOptions = {}) {
-    super();
+  private constructor(options: ConvertOptions = {}) {
+    super(options);
   }
 
   /**
@@ -117,183 +108,65 @@ export default class JsonToTsConverter extends ConverterBase {
   }
 
   /**
-   * Core conversion method that processes parsed JSON data.
+   * Converts several JSON samples into a single set of TypeScript interface strings.
    *
-   * Handles the main conversion logic, including initialization,
-   * interface generation, and final assembly of the output string.
+   * Properties absent from some samples are marked optional,
+   * and differing value types are combined into unions.
    *
-   * @param jsonData - Parsed JSON object to convert
-   * @param rootInterfaceName - Name for the root interface
-   * @param exportType - Export mode configuration
-   * @returns Complete TypeScript interface definitions
-   */
-  protected convertJson(jsonData: unknown, rootInterfaceName: string, exportType: ExportType = 'root'): string {
-    const exports: string = exportType !== 'none' ? 'export ' : '';
-    const interfaceName = ConverterUtils.toInterfaceName(rootInterfaceName);
-
-    if (typeof jsonData !== 'object' || jsonData === null) {
-      if (this.options.strict) {
-        return `${exports}type ${interfaceName} = null;`;
-      }
-      return `${exports}interface ${interfaceName} {\n  [p: string]: unknown;\n}`;
-    }
-
-    this.interfaces.clear();
-    this.visitedObjects = new WeakSet<object>();
-
-    this.generateInterface(jsonData as object, interfaceName, exportType === 'all');
-
-    // Reverse the order to ensure dependencies are declared before dependents
-    const orderedInterfaces = Array.from(this.interfaces.entries()).reverse();
-
-    return orderedInterfaces.map(([x, content]) => {
-      return (x === interfaceName && exportType === 'root' ? exports : '') + content;
-    }).join('\n\n');
-  }
-
-  /**
-   * Recursively generates interface definition for an object.
-   *
-   * Analyzes object structure and creates TypeScript interface matching its properties.
-   * Handles nested objects recursively and tracks visited objects to prevent
-   * infinite recursion with circular references.
+   * @param samples - JSON objects or strings to convert
+   * @param interfaceName - Name for the root interface (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns Generated TypeScript interface string or null if parsing fails
    *
-   * @param obj - Object to convert to interface
-   * @param interfaceName - Name for the generated interface
-   * @param appendExport - Whether to include export keyword
+   * @example
+   * ```typescript
+   * const result = JsonToTsConverter.convertSamples(
+   *   ['{"id": 1, "name": "John"}', '{"id": 2}'],
+   *   'Person',
+   * );
+   * ```
    */
-  private generateInterface(obj: any, interfaceName: string, appendExport: boolean): void {
-    // Prevent infinite recursion from circular references
-    if (typeof obj === 'object' && obj !== null) {
-      if (this.visitedObjects.has(obj)) {
-        return;
-      }
-      this.visitedObjects.add(obj);
-    }
-
-    if (this.interfaces.has(interfaceName)) return; // Interface already generated
-
-    let interfaceBody = '';
-    const keys = Object.keys(obj);
-
-    for (const key of keys) {
-      const value = obj[key];
-      const type = this.getType(value, this.capitalize(key), appendExport);
-      interfaceBody += `  ${ConverterUtils.formatPropertyValue(key, type, this.options)};\n`;
-    }
-
-    const fullInterface = `${appendExport ? 'export ' : ''}interface ${interfaceName} {\n${interfaceBody.trimEnd()}\n}`;
-    this.interfaces.set(interfaceName, fullInterface);
+  public static convertSamples(samples: (unknown | string)[], interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSamples(samples, interfaceName, exportType, options);
   }
 
   /**
-   * Determines TypeScript type string for a given value with comprehensive type inference.
+   * Converts a JSON Schema document into TypeScript interface strings.
    *
-   * Analyzes value and returns appropriate TypeScript type with support for all JavaScript types
-   * including primitives, complex objects, built-in classes, and special types like Date, RegExp,
-   * Error, Promise, Generator, Function, and collections (Set, Map, WeakMap, WeakSet). Also handles
-   * typed arrays, ArrayBuffer, DataView, Symbols, BigInt, and class instances.
+   * Interfaces are derived from the schema keywords (`properties`, `required`, `$defs`, ...)
+   * and rendered exactly like the interfaces inferred from JSON samples.
    *
-   * @param value - Value to analyze
-   * @param parentKey - Property key used for naming child interfaces
-   * @param appendExport - Whether child interfaces should be exported
-   * @returns TypeScript type string representation
+   * @param schema - JSON Schema document as an object or string
+   * @param interfaceName - Name for the root interface (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns Generated TypeScript interface string or null if parsing fails
+   *
+   * @example
+   * ```typescript
+   * const result = JsonToTsConverter.convertSchema({
+   *   type: 'object',
+   *   properties: { id: { type: 'integer' }, role: { enum: ['admin', 'user'] } },
+   *   required: ['id'],
+   * }, 'Person');
+   * // export interface Person {
+   * //   id: number;
+   * //   role?: "admin" | "user";
+   * // }
+   * ```
    */
-  private getType(value: any, parentKey: string, appendExport: boolean): string {
-    // Check custom type mapping first
-    if (this.options.typeMap && typeof value !== 'object' && value !== null) {
-      // Check for value-based type mapping (e.g., specific values)
-      if (this.options.typeMap[value as string]) {
-        return this.options.typeMap[value as string];
-      }
-      // Check for type-based mapping (e.g., 'string', 'number')
-      const typeBasedMapping = this.options.typeMap[typeof value];
-      if (typeBasedMapping) {
-        return typeBasedMapping;
-      }
-    }
-
-    // Set
-    if (value instanceof Set) {
-      const valueType = value.size > 0 ? this.getType(Array.from(value.values())[0], 'SetValue', false) : 'unknown';
-      return `Set<${valueType}>`;
-    }
-
-    // Map
-    if (value instanceof Map) {
-      const entries = Array.from(value.entries());
-      if (entries.length > 0) {
-        const keyType = this.getType(entries[0][0], 'MapKey', false);
-        const valueType = this.getType(entries[0][1], 'MapValue', false);
-        return `Map<${keyType}, ${valueType}>`;
-      }
-      return 'Map<unknown, unknown>';
-    }
-
-    // Handle arrays
-    if (Array.isArray(value) && value.length) {
-      // Use ArrayUtil to detect the appropriate array type
-      return ConverterUtils.detectTypeFromArray(
-        value,
-        this.options.arrayMaxTupleSize ?? 10,
-        this.options.arrayMinTupleSize ?? 2,
-      );
-    }
-
-    const basicType = ConverterUtils.detectJsTypeFromObject(value, this.options.strict);
-
-    if ( basicType !== null ) return basicType;
-
-    // Handle built-in objects and special types
-    if (typeof value === 'object' && value !== null) {
-      // Class instance
-      if (value?.constructor?.name !== 'Object') {
-        // Generate interface for class instance properties
-        const interfaceName = this.capitalize(`${parentKey}Instance`);
-        this.generateInterface(value, interfaceName, appendExport);
-        return interfaceName;
-      }
-
-      // Plain object
-      const interfaceName = this.capitalize(parentKey);
-      this.generateInterface(value, interfaceName, appendExport);
-      return interfaceName;
-    }
-
-    // Handle strict mode for primitive types
-    if (this.options.strict) {
-      switch (typeof value) {
-        case 'string':
-          return 'string';
-        case 'number':
-          return Number.isInteger(value) ? 'number' : 'number';
-        case 'boolean':
-          return 'boolean';
-        case 'bigint':
-          return 'bigint';
-        case 'symbol':
-          return 'symbol';
-        default:
-          return 'unknown';
-      }
-    }
-
-    return typeof value; // 'string', 'number', 'boolean', 'bigint', 'symbol', 'function', 'object'
+  public static convertSchema(schema: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSchema(schema, interfaceName, exportType, options);
   }
 
   /**
-   * Sanitizes and capitalizes string for interface naming.
-   *
-   * Converts JSON keys into valid TypeScript interface names by removing
-   * invalid characters and capitalizing the first letter.
-   *
-   * @param str - String to process
-   * @returns Sanitized string suitable for interface names
+   * Creates the emitter rendering the type model as TypeScript declarations,
+   * built from string templates or, in the `factory` emit mode, by the TypeScript compiler API.
    */
-  private capitalize(str: string): string {
-    if (!str) return '';
-    // Remove invalid characters and capitalize first letter
-    const sanitizedKey = str.replace(/[^a-zA-Z0-9_$]/g, '');
-    return sanitizedKey.charAt(0).toUpperCase() + sanitizedKey.slice(1);
+  protected createEmitter(): Emitter {
+    return this.options.emitMode === 'factory'
+      ? new TypeScriptFactoryEmitter(this.options)
+      : new TypeScriptEmitter(this.options);
   }
 }
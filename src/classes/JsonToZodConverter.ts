@@ -0,0 +1,113 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// base
+import ConverterBase from '~/base/ConverterBase';
+import ModelConverterBase from '~/base/ModelConverterBase';
+
+// classes
+import ZodEmitter from '~/classes/ZodEmitter';
+
+// types
+import type { ConvertOptions, ExportType } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+
+/**
+ * Converts JSON data into Zod schemas with their inferred TypeScript types.
+ *
+ * Walks the same type inference as `JsonToTsConverter`, producing one `z.object()` schema
+ * per generated interface, followed by an `export type X = z.infer<typeof XSchema>` line,
+ * so the runtime validation and the static types never disagree.
+ *
+ * Key Features:
+ * - One schema per interface, declared before the schemas that use it
+ * - Optional properties as `.optional()`, nullable values as `.nullable()`
+ * - Tuple detection mapped to `z.tuple()`
+ * - `readonlyProperties` mapped to `.readonly()`
+ * - `propertyCase` applied through a `.transform()` mapping the original JSON keys
+ *
+ * @example
+ * ```typescript
+ * const code = JsonToZodConverter.convert({ id: 1, email: null }, 'User');
+ * // import { z } from 'zod';
+ * //
+ * // export const UserSchema = z.object({
+ * //   id: z.number(),
+ * //   email: z.null(),
+ * // });
+ * //
+ * // export type User = z.infer<typeof UserSchema>;
+ * ```
+ */
+export default class JsonToZodConverter extends ModelConverterBase {
+  /**
+   * Creates an instance of JsonToZodConverter.
+   * @param options Configuration options for the conversion process.
+   */
+  private constructor(options: ConvertOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Converts JSON data into Zod schemas.
+   *
+   * @param jsonData - JSON object or string to convert
+   * @param interfaceName - Name for the root type, its schema gets the `Schema` suffix (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns Generated Zod schema code or null if parsing fails
+   *
+   * @example
+   * ```typescript
+   * const code = JsonToZodConverter.convert('{"name": "John"}', 'Person', 'all', { readonlyProperties: true });
+   * ```
+   */
+  public static convert(jsonData: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convert(jsonData, interfaceName, exportType, options);
+  }
+
+  /**
+   * Factory method to create converter instance.
+   */
+  protected static createConverter(options: ConvertOptions): ConverterBase {
+    return new JsonToZodConverter(options);
+  }
+
+  /**
+   * Converts several JSON samples into a single set of Zod schemas.
+   * Properties absent from some samples become optional,
+   * and differing value types are combined into unions.
+   *
+   * @param samples - JSON objects or strings to convert
+   * @param interfaceName - Name for the root type (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns Generated Zod schema code or null if parsing fails
+   */
+  public static convertSamples(samples: (unknown | string)[], interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSamples(samples, interfaceName, exportType, options);
+  }
+
+  /**
+   * Converts a JSON Schema document into Zod schemas.
+   *
+   * @param schema - JSON Schema document as an object or string
+   * @param interfaceName - Name for the root type (default: 'RootObject')
+   * @param exportType - Export mode: 'root', 'all', or 'none' (default: 'root')
+   * @param options - Configuration options for the conversion process
+   * @returns Generated Zod schema code or null if parsing fails
+   */
+  public static convertSchema(schema: unknown | string, interfaceName: string = 'RootObject', exportType: ExportType = 'root', options: ConvertOptions = {}): string | null {
+    return super.convertSchema(schema, interfaceName, exportType, options);
+  }
+
+  /**
+   * Creates the emitter rendering the type model as Zod schemas.
+   */
+  protected createEmitter(): Emitter {
+    return new ZodEmitter(this.options);
+  }
+}
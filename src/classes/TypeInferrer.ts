@@ -0,0 +1,592 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import FormatUtils from '~/utils/FormatUtils';
+import StringUtils from '~/utils/StringUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConversionWarning, ConvertOptions, ExportType } from '~/typings/global';
+import type { DeclarationNode, PropertyNode, TypeModel, TypeNode } from '~/typings/model';
+
+/**
+ * Infers a typed model of declarations from one or more JSON samples.
+ *
+ * This class holds the type inference shared by all output targets, so that
+ * TypeScript interfaces, JSON Schemas and any other generated output always
+ * agree on the detected structure.
+ *
+ * Key Features:
+ * - Intelligent interface naming based on object keys and structure
+ * - Object arrays and samples merged into single declarations (optional keys, union types)
+ * - Circular reference detection to prevent infinite loops
+ * - Warnings about renamed declarations, circular references and empty arrays
+ * - Deterministic name collision handling based on structural comparison
+ * - Optional structural deduplication of identical declarations
+ * - Advanced array type detection with tuple types for mixed arrays
+ *
+ * @example
+ * ```typescript
+ * const model = new TypeInferrer({ strict: true }).infer([{ id: 1 }, { id: 2, name: 'John' }], 'User', 'root');
+ * // {
+ * //   rootName: 'User',
+ * //   declarations: [{ kind: 'interface', name: 'User', exported: true, properties: [...] }]
+ * // }
+ * ```
+ */
+export default class TypeInferrer {
+  /**
+   * Generated declarations.
+   *
+   * Maps declaration names to their nodes. This prevents duplicate declarations
+   * and maintains proper dependency ordering when assembling the final model.
+   */
+  private declarations: Map<string, DeclarationNode> = new Map();
+
+  /**
+   * Structural signatures of the generated interfaces.
+   *
+   * Maps interface names to their rendered bodies, which are compared to decide whether
+   * an interface with a colliding name has the same shape (and can be reused) or needs
+   * a distinct name.
+   */
+  private signatures: Map<string, string> = new Map();
+
+  /**
+   * Structural hash index of the generated interfaces.
+   *
+   * Maps interface signatures to the name of the first (canonical) interface generated
+   * with that shape, used to deduplicate identical interfaces stored under different names.
+   */
+  private shapes: Map<string, string> = new Map();
+
+  /**
+   * Names of the interfaces currently being generated, outermost first.
+   *
+   * Used by the 'parent' naming strategy to prefix colliding nested interface names.
+   */
+  private parentNames: string[] = [];
+
+  /**
+   * Name of the root interface, which nested interfaces are never allowed to take.
+   */
+  private rootName: string = '';
+
+  /**
+   * Tracks visited objects to detect circular references.
+   *
+   * Uses WeakSet to avoid memory leaks while preventing infinite recursion
+   * when objects reference themselves or create circular dependencies.
+   */
+  private visitedObjects = new WeakSet<object>();
+
+  /**
+   * Warnings of the last inference: renamed declarations, circular references and empty arrays.
+   */
+  public warnings: ConversionWarning[] = [];
+
+  /**
+   * Creates an instance of TypeInferrer.
+   * @param options Configuration options for the inference process.
+   */
+  public constructor(private options: ConvertOptions = {}) {
+  }
+
+  /**
+   * Infers the declarations describing the given JSON samples.
+   *
+   * @param samples - Parsed JSON samples to analyze
+   * @param rootName - Name for the root declaration
+   * @param exportType - Export mode configuration
+   * @returns The inferred type model, root declaration first
+   */
+  public infer(samples: unknown[], rootName: string, exportType: ExportType = 'root'): TypeModel {
+    this.declarations.clear();
+    this.signatures.clear();
+    this.shapes.clear();
+    this.parentNames = [];
+    this.rootName = rootName;
+    this.visitedObjects = new WeakSet<object>();
+    this.warnings = [];
+
+    const objects = samples.filter((sample): sample is object => typeof sample === 'object' && sample !== null && !Array.isArray(sample));
+
+    if (objects.length && objects.length === samples.length) {
+      this.generateInterface(objects, rootName, exportType === 'all', []);
+    } else if (samples.length) {
+      // Arrays and primitives at the root are described by a type alias, e.g. `type RootObject = User[]`.
+      // The root name acts as the parent, so nested declarations never take the root name.
+      this.parentNames.push(rootName);
+      const type = this.getTypeFromValues(samples, rootName, exportType === 'all', []);
+      this.parentNames.pop();
+
+      this.declarations.set(rootName, { kind: 'alias', name: rootName, type, exported: exportType === 'all', path: '' });
+    }
+
+    // Reverse the order so the root comes first, followed by its dependencies
+    const declarations = Array.from(this.declarations.values()).reverse();
+
+    for (const declaration of declarations) {
+      if (declaration.name === rootName && exportType === 'root') {
+        declaration.exported = true;
+      }
+    }
+
+    return { rootName, declarations };
+  }
+
+  /**
+   * Recursively generates interface declaration for one or more sample objects.
+   *
+   * Analyzes object structure and creates an interface matching its properties.
+   * When several objects are given (e.g. the elements of an object array), their properties
+   * are merged: keys missing from some objects become optional and differing value types
+   * become unions. Handles nested objects recursively and tracks the objects being generated
+   * to prevent infinite recursion with circular references.
+   *
+   * @param objects - Objects to convert to a single interface
+   * @param interfaceName - Preferred name for the generated interface
+   * @param appendExport - Whether the declaration should be exported
+   * @param path - JSON key path of the objects, used for `typeMap` lookups
+   * @returns The name of the generated (or reused) declaration, or null if all objects are circular references
+   */
+  private generateInterface(objects: object[], interfaceName: string, appendExport: boolean, path: string[]): string | null {
+    // Prevent infinite recursion from circular references
+    const pending = objects.filter(obj => !this.visitedObjects.has(obj));
+    if (!pending.length) return null;
+    pending.forEach(obj => this.visitedObjects.add(obj));
+
+    const properties: PropertyNode[] = [];
+
+    this.parentNames.push(interfaceName);
+
+    for (const [propertyKey, { values, optional }] of ConverterUtils.collectProperties(pending, true)) {
+      // Symbol keys are named after their description, e.g. `Symbol('id')` -> "id"
+      const key = typeof propertyKey === 'symbol' ? propertyKey.description ?? '' : String(propertyKey);
+      const propertyPath = [...path, key];
+      const type = this.getTypeFromValues(values, this.capitalize(key), appendExport, propertyPath);
+      properties.push({
+        key,
+        type,
+        optional,
+        readonly: this.options.readonlyProperties ?? false,
+        nullable: TypeNodeUtils.isNullable(type),
+        path: ConverterUtils.toPathString(propertyPath),
+      });
+    }
+
+    this.parentNames.pop();
+
+    // Objects shared by several properties without a cycle are generated again
+    pending.forEach(obj => this.visitedObjects.delete(obj));
+
+    const body = properties
+      .map(({ key, type, optional }) => {
+        const format = TypeNodeUtils.findFormat(type);
+        const property = ConverterUtils.formatPropertyValue(key, TypeNodeUtils.toString(type), this.options, optional);
+        return format ? `@format ${format} ${property}` : property;
+      })
+      .join('\n');
+    const dedupe = this.options.dedupeInterfaces ?? 'none';
+    const canonicalName = this.parentNames.length ? this.shapes.get(body) : undefined;
+
+    if (canonicalName && dedupe === 'reference') {
+      return canonicalName;
+    }
+
+    const name = this.resolveInterfaceName(interfaceName, body);
+
+    if (!this.declarations.has(name)) {
+      this.warnRenamed(interfaceName, name, path);
+      this.signatures.set(name, body);
+
+      if (canonicalName && dedupe === 'alias') {
+        this.declarations.set(name, { kind: 'alias', name, type: TypeNodeUtils.reference(canonicalName), exported: appendExport, path: ConverterUtils.toPathString(path) });
+      } else {
+        this.shapes.set(body, name);
+        this.declarations.set(name, { kind: 'interface', name, properties, exported: appendExport, path: ConverterUtils.toPathString(path) });
+      }
+    }
+
+    return name;
+  }
+
+  /**
+   * Resolves the final name of an interface, handling name collisions deterministically.
+   *
+   * If no interface uses the preferred name yet, or the existing one has the same shape,
+   * the preferred name is used. Otherwise, a distinct name is derived according to the
+   * `namingStrategy` option: the parent interface name as a prefix (e.g. `CompanyAddress`),
+   * falling back to a numeric suffix (e.g. `Address2`). Previously derived names holding
+   * the same shape are reused.
+   *
+   * @param interfaceName - Preferred name for the interface
+   * @param body - Rendered interface body used as the structural signature
+   * @returns The resolved interface name
+   */
+  private resolveInterfaceName(interfaceName: string, body: string): string {
+    const parentName = this.parentNames.at(-1);
+
+    // The root interface always keeps the requested name
+    if (!parentName) return interfaceName;
+
+    const candidates = [interfaceName];
+
+    if ((this.options.namingStrategy ?? 'parent') === 'parent' && !interfaceName.startsWith(parentName)) {
+      candidates.push(`${parentName}${interfaceName}`);
+    }
+
+    for (const candidate of candidates) {
+      if (candidate === this.rootName) continue;
+
+      const signature = this.signatures.get(candidate);
+      if (signature === undefined || signature === body) {
+        return candidate;
+      }
+    }
+
+    const baseName = candidates[candidates.length - 1];
+
+    for (const [name, signature] of this.signatures) {
+      if (signature === body && name.startsWith(baseName) && /^\d+$/.test(name.slice(baseName.length))) {
+        return name;
+      }
+    }
+
+    return ConverterUtils.generateUniqueName(baseName, new Set([this.rootName, ...this.signatures.keys()]), '');
+  }
+
+  /**
+   * References a generated interface. Circular references are typed as `any` (`unknown` in strict mode),
+   * as the interface they point back to is still being generated.
+   *
+   * @param name - Name of the generated interface, or null for a circular reference
+   * @param path - JSON key path of the objects
+   * @returns The type node referencing the interface
+   */
+  private toReference(name: string | null, path: string[]): TypeNode {
+    if (name !== null) return TypeNodeUtils.reference(name);
+
+    const keyword = this.options.strict ? 'unknown' : 'any';
+    this.warnings.push(ConverterUtils.createWarning('CIRCULAR_REFERENCE', path, `typed as ${keyword}`));
+    return TypeNodeUtils.keyword(keyword);
+  }
+
+  /**
+   * Warns about a declaration that could not take its preferred name.
+   *
+   * @param preferredName - Preferred name for the declaration
+   * @param name - Resolved name of the declaration
+   * @param path - JSON key path of the declaration
+   */
+  private warnRenamed(preferredName: string, name: string, path: string[]): void {
+    if (name !== preferredName) {
+      this.warnings.push(ConverterUtils.createWarning('NAME_COLLISION', path, `"${preferredName}" is taken by another shape, named "${name}"`));
+    }
+  }
+
+  /**
+   * Determines a single type describing all the given values.
+   *
+   * Plain objects are merged into one interface, arrays are merged into one array type,
+   * and the remaining values are typed individually. The resulting types are combined
+   * into a union, with `null` appended when some (but not all) of the values are null.
+   *
+   * @param values - Values found for the same property across samples
+   * @param parentKey - Property key used for naming child interfaces
+   * @param appendExport - Whether child interfaces should be exported
+   * @param path - JSON key path of the values, used for `typeMap` lookups
+   * @returns The type node describing the values
+   */
+  private getTypeFromValues(values: unknown[], parentKey: string, appendExport: boolean, path: string[]): TypeNode {
+    // Check key path based type mapping first
+    const mappedType = ConverterUtils.findMappedType(this.options.typeMap, path);
+    if (mappedType) {
+      return { kind: 'raw', text: mappedType };
+    }
+
+    const enumType = this.getEnumType(values, parentKey, appendExport, path);
+    if (enumType) return enumType;
+
+    if (values.length === 1) {
+      return this.getType(values[0], parentKey, appendExport, path);
+    }
+
+    const types: TypeNode[] = [];
+    const objects = values.filter(value => ConverterUtils.isPlainObject(value));
+    const arrays = values.filter(value => Array.isArray(value));
+    const others = values.filter(value => value !== null && !ConverterUtils.isPlainObject(value) && !Array.isArray(value));
+
+    if (objects.length) {
+      types.push(this.toReference(this.generateInterface(objects, this.capitalize(parentKey), appendExport, path), path));
+    }
+
+    if (arrays.length) {
+      types.push(this.getArrayType(arrays, parentKey, appendExport, path));
+    }
+
+    for (const value of others) {
+      types.push(this.getType(value, parentKey, appendExport, path));
+    }
+
+    if (values.includes(null)) {
+      types.push(types.length ? TypeNodeUtils.keyword('null') : this.getType(null, parentKey, appendExport, path));
+    }
+
+    return TypeNodeUtils.union(this.mergeFormats(types));
+  }
+
+  /**
+   * Determines the array type for one or more sample arrays.
+   *
+   * Arrays holding only primitives keep the tuple detection of
+   * `ConverterUtils.detectTypeFromArray`. When objects or nested arrays are present,
+   * every element is analysed and merged into a single element type, so that an
+   * array of records produces one element interface (e.g. `posts` -> `Post[]`).
+   *
+   * @param arrays - Arrays found for the same property across samples
+   * @param parentKey - Property key used for naming the element interface
+   * @param appendExport - Whether child interfaces should be exported
+   * @param path - JSON key path of the arrays, used for `typeMap` lookups
+   * @returns The array or tuple type node
+   */
+  private getArrayType(arrays: unknown[][], parentKey: string, appendExport: boolean, path: string[]): TypeNode {
+    const filled = arrays.filter(arr => arr.length);
+
+    if (!filled.length) {
+      const type = TypeNodeUtils.array(TypeNodeUtils.keyword(this.options.strict ? 'unknown' : 'any'));
+      this.warnings.push(ConverterUtils.createWarning('EMPTY_ARRAY', path, `typed as ${TypeNodeUtils.toString(type)}`));
+      return type;
+    }
+
+    const elements = filled.flat();
+    const elementPath = [...path, '[]'];
+    const mappedType = ConverterUtils.findMappedType(this.options.typeMap, elementPath);
+
+    if (mappedType) {
+      return TypeNodeUtils.array({ kind: 'raw', text: mappedType });
+    }
+
+    if (!elements.some(element => typeof element === 'object' && element !== null)) {
+      const enumType = this.getEnumType(elements, StringUtils.singularize(parentKey), appendExport, elementPath);
+      if (enumType) return TypeNodeUtils.array(enumType);
+
+      // Strings sharing a single format are typed after that format, e.g. `string[]` of UUIDs
+      if (this.options.detectFormats && elements.every(element => typeof element === 'string')) {
+        const formatted = TypeNodeUtils.union(this.mergeFormats(elements.map(element => this.getType(element, parentKey, appendExport, elementPath))));
+        if (formatted.kind === 'format') return TypeNodeUtils.array(formatted);
+      }
+
+      return TypeNodeUtils.union(filled.map(arr => TypeNodeUtils.fromTypeString(ConverterUtils.detectTypeFromArray(
+        arr,
+        this.options.arrayMaxTupleSize ?? 10,
+        this.options.arrayMinTupleSize ?? 2,
+      ))));
+    }
+
+    const singular = StringUtils.singularize(parentKey);
+    const elementKey = singular !== parentKey ? singular : `${parentKey}Item`;
+
+    return TypeNodeUtils.array(this.getTypeFromValues(elements, elementKey, appendExport, elementPath));
+  }
+
+  /**
+   * Determines the type for a given value with comprehensive type inference.
+   *
+   * Analyzes value and returns appropriate type with support for all JavaScript types
+   * including primitives, complex objects, built-in classes, and special types like Date, RegExp,
+   * Error, Promise, Generator, Function, and collections (Set, Map, WeakMap, WeakSet). Also handles
+   * typed arrays, ArrayBuffer, DataView, Symbols, BigInt, and class instances.
+   *
+   * @param value - Value to analyze
+   * @param parentKey - Property key used for naming child interfaces
+   * @param appendExport - Whether child interfaces should be exported
+   * @param path - JSON key path of the value, used for `typeMap` lookups
+   * @returns The type node describing the value
+   */
+  private getType(value: any, parentKey: string, appendExport: boolean, path: string[]): TypeNode {
+    // Detect the format of string values
+    if (this.options.detectFormats && typeof value === 'string') {
+      const format = FormatUtils.detectFormat(value);
+      if (format) {
+        return { kind: 'format', format, text: FormatUtils.toFormatType(format, this.options.formatTypes?.[format]) };
+      }
+    }
+
+    // Check custom type mapping of primitive types
+    if (this.options.typeMap && typeof value !== 'object' && value !== null) {
+      // Check for type-based mapping (e.g., 'string', 'number')
+      const typeBasedMapping = this.options.typeMap[typeof value];
+      if (typeBasedMapping) {
+        return { kind: 'raw', text: typeBasedMapping };
+      }
+    }
+
+    // Set
+    if (value instanceof Set) {
+      const valueType = value.size > 0 ? TypeNodeUtils.toString(this.getType(Array.from(value.values())[0], 'SetValue', false, path)) : 'unknown';
+      return { kind: 'raw', text: `Set<${valueType}>` };
+    }
+
+    // Map
+    if (value instanceof Map) {
+      const entries = Array.from(value.entries());
+      if (entries.length > 0) {
+        const keyType = TypeNodeUtils.toString(this.getType(entries[0][0], 'MapKey', false, path));
+        const valueType = TypeNodeUtils.toString(this.getType(entries[0][1], 'MapValue', false, path));
+        return { kind: 'raw', text: `Map<${keyType}, ${valueType}>` };
+      }
+      return { kind: 'raw', text: 'Map<unknown, unknown>' };
+    }
+
+    // Handle arrays
+    if (Array.isArray(value)) {
+      return this.getArrayType([value], parentKey, appendExport, path);
+    }
+
+    const basicType = ConverterUtils.detectJsTypeFromObject(value, this.options.strict);
+
+    if ( basicType !== null ) return TypeNodeUtils.fromTypeString(basicType);
+
+    // Handle built-in objects and special types
+    if (typeof value === 'object' && value !== null) {
+      // Class instance
+      if (value?.constructor?.name !== 'Object') {
+        // Generate interface for class instance properties
+        return this.toReference(this.generateInterface([value], this.capitalize(`${parentKey}Instance`), appendExport, path), path);
+      }
+
+      // Plain object
+      return this.toReference(this.generateInterface([value], this.capitalize(parentKey), appendExport, path), path);
+    }
+
+    // Handle strict mode for primitive types
+    if (this.options.strict) {
+      switch (typeof value) {
+        case 'string':
+          return TypeNodeUtils.keyword('string');
+        case 'number':
+          return TypeNodeUtils.keyword('number');
+        case 'boolean':
+          return TypeNodeUtils.keyword('boolean');
+        case 'bigint':
+          return TypeNodeUtils.keyword('bigint');
+        case 'symbol':
+          return TypeNodeUtils.keyword('symbol');
+        default:
+          return TypeNodeUtils.keyword('unknown');
+      }
+    }
+
+    return TypeNodeUtils.fromTypeString(typeof value); // 'string', 'number', 'boolean', 'bigint', 'symbol', 'function', 'object'
+  }
+
+  /**
+   * Determines the literal union or enum type of string values, according to the `enumStyle` option.
+   *
+   * See `ConverterUtils.findEnumValues` for the values considered enumerable.
+   *
+   * @param values - Values found for the same property across array elements and samples
+   * @param parentKey - Property key used for naming the enum
+   * @param appendExport - Whether the enum should be exported
+   * @param path - JSON key path of the values
+   * @returns The literal union or enum reference type node, or null if the values are not enumerable
+   */
+  private getEnumType(values: unknown[], parentKey: string, appendExport: boolean, path: string[]): TypeNode | null {
+    const style = this.options.enumStyle ?? 'none';
+    const distinct = style !== 'none' ? ConverterUtils.findEnumValues(values, this.options.enumThreshold ?? 10) : null;
+
+    if (!distinct) return null;
+
+    // Formatted strings (e.g. dates or UUIDs) are typed after their format instead
+    if (this.options.detectFormats && distinct.every(value => FormatUtils.detectFormat(value))) {
+      return null;
+    }
+
+    const type = style === 'union'
+      ? TypeNodeUtils.union(distinct.map(value => TypeNodeUtils.literal(value)))
+      : TypeNodeUtils.reference(this.generateEnum(distinct, this.capitalize(parentKey), appendExport, path));
+
+    return values.includes(null) ? TypeNodeUtils.union([type, TypeNodeUtils.keyword('null')]) : type;
+  }
+
+  /**
+   * Generates an enum declaration of string values.
+   * Enums share the name collision handling of interfaces, and identical enums are reused.
+   *
+   * @param values - Distinct values of the enum, in order of appearance
+   * @param enumName - Preferred name for the enum
+   * @param appendExport - Whether the declaration should be exported
+   * @param path - JSON key path of the values
+   * @returns The name of the generated (or reused) declaration
+   */
+  private generateEnum(values: string[], enumName: string, appendExport: boolean, path: string[]): string {
+    const body = `enum ${values.map(value => JSON.stringify(value)).join(' | ')}`;
+    const name = this.resolveInterfaceName(enumName, body);
+
+    if (!this.declarations.has(name)) {
+      this.warnRenamed(enumName, name, path);
+      const memberNames = new Set<string>();
+      const members = values.map(value => {
+        const memberName = this.toEnumMemberName(value);
+        const uniqueName = memberNames.has(memberName) ? ConverterUtils.generateUniqueName(memberName, memberNames, '') : memberName;
+        memberNames.add(uniqueName);
+        return { name: uniqueName, value };
+      });
+
+      this.signatures.set(name, body);
+      this.declarations.set(name, { kind: 'enum', name, members, exported: appendExport, path: ConverterUtils.toPathString(path) });
+    }
+
+    return name;
+  }
+
+  /**
+   * Converts an enum value into a valid member name, e.g. `in_progress` -> `InProgress`.
+   *
+   * @param value - The enum value
+   * @returns The member name
+   */
+  private toEnumMemberName(value: string): string {
+    const name = StringUtils.formatName(value, 'pascal').replace(/[^\w$]/g, '');
+    if (!name) return 'Empty';
+    return /^\d/.test(name) ? `_${name}` : name;
+  }
+
+  /**
+   * Widens the format types of a union to plain strings, unless a single format is shared
+   * by all its string members (e.g. a UUID and an email address are typed as `string`).
+   *
+   * @param types - The union members
+   * @returns The union members, with conflicting formats replaced by `string`
+   */
+  private mergeFormats(types: TypeNode[]): TypeNode[] {
+    const formats = new Set(types.flatMap(type => type.kind === 'format' ? [type.format] : []));
+    const hasString = types.some(type => type.kind === 'keyword' && type.name === 'string');
+
+    if (!formats.size || (formats.size === 1 && !hasString)) return types;
+
+    return types.map(type => type.kind === 'format' ? TypeNodeUtils.keyword('string') : type);
+  }
+
+  /**
+   * Sanitizes and capitalizes string for interface naming.
+   *
+   * Converts JSON keys into valid TypeScript interface names by removing
+   * invalid characters and capitalizing the first letter.
+   *
+   * @param str - String to process
+   * @returns Sanitized string suitable for interface names
+   */
+  private capitalize(str: string): string {
+    if (!str) return '';
+    // Remove invalid characters and capitalize first letter
+    const sanitizedKey = str.replace(/[^a-zA-Z0-9_$]/g, '');
+    return sanitizedKey.charAt(0).toUpperCase() + sanitizedKey.slice(1);
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import FormattingUtils from '~/utils/FormattingUtils';
+import StringUtils from '~/utils/StringUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConvertOptions, ExportType, FormattingOptions } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { DeclarationNode, EnumDeclarationNode, InterfaceDeclarationNode, TypeModel, TypeNode } from '~/typings/model';
+
+/**
+ * Built-in emitter rendering the type model as TypeScript declarations.
+ *
+ * Renders interfaces (or type aliases, see `declarationStyle`), enums and aliases,
+ * optionally followed by a runtime type-guard function per declaration,
+ * formatted according to the `formatting` option.
+ *
+ * In the inline mode, used by `JsonToFlattenedTsConverter`, only the root declaration
+ * is rendered, with the declarations it references embedded as object literal types.
+ *
+ * @example
+ * ```typescript
+ * const model = new TypeInferrer().infer([{ id: 1 }], 'User', 'root');
+ * new TypeScriptEmitter().emit(model, 'root');
+ * // export interface User {
+ * //   id: number;
+ * // }
+ * ```
+ */
+export default class TypeScriptEmitter implements Emitter {
+  /**
+   * Formatting options of the rendering process.
+   */
+  private readonly formatting: FormattingOptions;
+
+  /**
+   * Declarations of the rendered model by name, looked up to embed references in the inline mode.
+   */
+  private declarations = new Map<string, DeclarationNode>();
+
+  /**
+   * Creates an instance of TypeScriptEmitter.
+   * @param options Configuration options for the rendering process.
+   * @param inline Whether to render the root declaration only, with the declarations it references embedded inline.
+   */
+  public constructor(private options: ConvertOptions = {}, private readonly inline: boolean = false) {
+    this.formatting = options.formatting ?? {};
+  }
+
+  /**
+   * Renders the type model as TypeScript code, in the configured declaration order.
+   *
+   * @param model - The type model to render
+   * @param exportType - Export mode configuration
+   * @returns Complete TypeScript interface definitions
+   */
+  public emit({ rootName, declarations }: TypeModel, exportType: ExportType): string {
+    const exports: string = exportType !== 'none' ? 'export ' : '';
+
+    if (this.inline) {
+      const root = declarations.find(declaration => declaration.name === rootName);
+      this.declarations = new Map(declarations.map(declaration => [declaration.name, declaration]));
+
+      // Without samples the flattened interface has no members
+      const code = root ? this.renderDeclaration(root) : exports + ConverterUtils.toDeclaration(rootName, '{}', this.options.declarationStyle, this.formatting);
+      return FormattingUtils.finish(code, this.formatting);
+    }
+
+    if (!declarations.length) {
+      if (this.options.strict) {
+        return FormattingUtils.finish(FormattingUtils.statement(`${exports}type ${rootName} = null`, this.formatting), this.formatting);
+      }
+      const body = `{\n${FormattingUtils.indent(this.formatting)}${FormattingUtils.member('[p: string]: unknown', this.formatting)}\n}`;
+      return FormattingUtils.finish(exports + ConverterUtils.toDeclaration(rootName, body, this.options.declarationStyle, this.formatting), this.formatting);
+    }
+
+    const blocks = FormattingUtils.orderDeclarations(declarations, this.formatting).flatMap(declaration => {
+      const code = this.renderDeclaration(declaration);
+      return this.options.typeGuards ? [code, this.renderTypeGuard(declaration)] : [code];
+    });
+
+    return FormattingUtils.finish(FormattingUtils.join(blocks, this.formatting), this.formatting);
+  }
+
+  /**
+   * Renders a single declaration of the type model as TypeScript code.
+   *
+   * @param declaration - The interface, type alias or enum declaration to render
+   * @returns The TypeScript declaration code
+   */
+  private renderDeclaration(declaration: DeclarationNode): string {
+    const exports = declaration.exported ? 'export ' : '';
+
+    if (declaration.kind === 'alias') {
+      return FormattingUtils.statement(`${exports}type ${declaration.name} = ${this.renderType(declaration.type, 0, [declaration.name])}`, this.formatting);
+    }
+
+    if (declaration.kind === 'enum') {
+      return this.renderEnum(declaration);
+    }
+
+    const body = this.inline ? this.renderObject(declaration, 0, [declaration.name]) : `{\n${this.renderMembers(declaration, 1, []).join('\n')}\n}`;
+
+    return exports + ConverterUtils.toDeclaration(declaration.name, body, this.options.declarationStyle, this.formatting);
+  }
+
+  /**
+   * Renders the property signatures and index signature of an interface declaration.
+   *
+   * @param declaration - The interface declaration
+   * @param level - Indentation level of the members
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The member lines
+   */
+  private renderMembers({ properties, additionalProperties }: InterfaceDeclarationNode, level: number, stack: string[]): string[] {
+    const indent = FormattingUtils.indent(this.formatting, level);
+
+    const members = properties.map(({ key, type, optional }) => {
+      const format = TypeNodeUtils.findFormat(type);
+      const property = indent + FormattingUtils.member(ConverterUtils.formatPropertyValue(key, this.renderType(type, level, stack), this.options, optional), this.formatting);
+      return format ? `${indent}/** @format ${format} */\n${property}` : property;
+    });
+
+    if (additionalProperties) {
+      const readonly = this.options.readonlyProperties ? 'readonly ' : '';
+      members.push(indent + FormattingUtils.member(`${readonly}[p: string]: ${this.renderType(additionalProperties, level, stack)}`, this.formatting));
+    }
+
+    return members;
+  }
+
+  /**
+   * Renders an interface declaration as an object literal type, embedded in the inline mode.
+   *
+   * @param declaration - The interface declaration
+   * @param level - Indentation level of the closing brace
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The object literal type, `{}` if it has no members
+   */
+  private renderObject(declaration: InterfaceDeclarationNode, level: number, stack: string[]): string {
+    const members = this.renderMembers(declaration, level + 1, stack);
+    return members.length ? `{\n${members.join('\n')}\n${FormattingUtils.indent(this.formatting, level)}}` : '{}';
+  }
+
+  /**
+   * Renders a type node, embedding the referenced declarations in the inline mode.
+   *
+   * @param node - The type node
+   * @param level - Indentation level of the member holding the type
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The TypeScript type
+   */
+  private renderType(node: TypeNode, level: number, stack: string[]): string {
+    if (!this.inline) {
+      return TypeNodeUtils.toString(node, this.formatting);
+    }
+
+    switch (node.kind) {
+      case 'reference':
+        return this.renderReference(node.name, level, stack);
+      case 'array':
+        return ConverterUtils.toArrayType(this.renderType(node.element, level, stack));
+      case 'tuple':
+        return `[${node.elements.map(element => this.renderType(element, level, stack)).join(', ')}]`;
+      case 'union':
+        return ConverterUtils.unionTypes(node.types.map(type => this.renderType(type, level, stack)));
+      case 'intersection':
+        return ConverterUtils.intersectionTypes(node.types.map(type => this.renderType(type, level, stack)));
+      default:
+        return TypeNodeUtils.toString(node, this.formatting);
+    }
+  }
+
+  /**
+   * Embeds a referenced declaration in the inline mode: an interface as an object literal type,
+   * an alias as its type and an enum as the union of its values. References back to a declaration
+   * being embedded (e.g. a recursive JSON Schema definition) are typed as `any` (`unknown` in strict mode).
+   *
+   * @param name - Name of the referenced declaration
+   * @param level - Indentation level of the member holding the type
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The TypeScript type
+   */
+  private renderReference(name: string, level: number, stack: string[]): string {
+    const declaration = this.declarations.get(name);
+
+    if (!declaration || stack.includes(name)) {
+      return this.options.strict ? 'unknown' : 'any';
+    }
+
+    switch (declaration.kind) {
+      case 'interface':
+        return this.renderObject(declaration, level, [...stack, name]);
+      case 'alias':
+        return this.renderType(declaration.type, level, [...stack, name]);
+      case 'enum':
+        return declaration.members.map(member => FormattingUtils.quote(member.value, this.formatting)).join(' | ');
+    }
+  }
+
+  /**
+   * Renders an enum declaration of the type model, either as a TypeScript `enum`
+   * or as an `as const` object with a type of its values, according to the `enumStyle` option.
+   *
+   * @param declaration - The enum declaration to render
+   * @returns The TypeScript declaration code
+   */
+  private renderEnum({ name, members, exported }: EnumDeclarationNode): string {
+    const exports = exported ? 'export ' : '';
+    const indent = FormattingUtils.indent(this.formatting);
+
+    if (this.options.enumStyle === 'const') {
+      const entries = members.map(member => `${indent}${member.name}: ${FormattingUtils.quote(member.value, this.formatting)},`);
+      return FormattingUtils.join([
+        FormattingUtils.statement(`${exports}const ${name} = {\n${entries.join('\n')}\n} as const`, this.formatting),
+        FormattingUtils.statement(`${exports}type ${name} = typeof ${name}[keyof typeof ${name}]`, this.formatting),
+      ], this.formatting);
+    }
+
+    const entries = members.map(member => `${indent}${member.name} = ${FormattingUtils.quote(member.value, this.formatting)},`);
+    return `${exports}enum ${name} {\n${entries.join('\n')}\n}`;
+  }
+
+  /**
+   * Renders a runtime type-guard function for a declaration of the type model.
+   *
+   * @param declaration - The interface, type alias or enum declaration to check
+   * @returns The type-guard function code, e.g. `function isUser(value: unknown): value is User`
+   */
+  private renderTypeGuard(declaration: DeclarationNode): string {
+    const exports = declaration.exported ? 'export ' : '';
+    const signature = `${exports}function is${declaration.name}(value: unknown): value is ${declaration.name}`;
+    const indent = FormattingUtils.indent(this.formatting);
+    const statement = (code: string): string => indent + FormattingUtils.statement(code, this.formatting);
+
+    if (declaration.kind === 'alias') {
+      return `${signature} {\n${statement(`return ${this.typeToGuard(declaration.type, 'value', 0)}`)}\n}`;
+    }
+
+    if (declaration.kind === 'enum') {
+      return `${signature} {\n${statement(`return (Object.values(${declaration.name}) as unknown[]).includes(value)`)}\n}`;
+    }
+
+    const checks = declaration.properties.map(({ key, type, optional }) => {
+      const name = FormattingUtils.quoteName(ConverterUtils.suggestPropertyName(StringUtils.formatName(key, this.options.propertyCase ?? 'original')), this.formatting);
+      const quoted = /^["']/.test(name);
+      const accessor = quoted ? `obj[${name}]` : `obj.${name}`;
+      const check = this.typeToGuard(type, accessor, 0);
+
+      if (optional || this.options.optionalProperties) {
+        return check === 'true' ? null : `(${accessor} === undefined || ${check})`;
+      }
+
+      return check === 'true' ? `${quoted ? name : this.quoteGuard(name)} in obj` : check;
+    }).filter(check => check !== null);
+
+    return [
+      `${signature} {`,
+      statement(`if (typeof value !== ${this.quoteGuard('object')} || value === null) return false`),
+      ...(checks.length ? [
+        statement(`const obj = value as Record<string, unknown>`),
+        statement(`return ${checks.join(`\n${FormattingUtils.indent(this.formatting, 2)}&& `)}`),
+      ] : [statement(`return true`)]),
+      `}`,
+    ].join('\n');
+  }
+
+  /**
+   * Quotes a string of the type-guard code, with single quotes unless a quote style is configured.
+   *
+   * @param text - The unescaped text, e.g. a `typeof` result
+   * @returns The quoted string
+   */
+  private quoteGuard(text: string): string {
+    return this.formatting.quoteStyle ? FormattingUtils.quote(text, this.formatting) : `'${text}'`;
+  }
+
+  /**
+   * Builds the runtime check expression of a type node.
+   *
+   * Types that cannot be checked at runtime (e.g. `any` or custom type mappings) produce `true`.
+   *
+   * @param node - The type node to check
+   * @param value - Expression of the value being checked
+   * @param depth - Nesting level of array callbacks, used to name their parameters
+   * @returns The boolean check expression
+   */
+  private typeToGuard(node: TypeNode, value: string, depth: number): string {
+    switch (node.kind) {
+      case 'keyword':
+        switch (node.name) {
+          case 'any':
+          case 'unknown':
+            return 'true';
+          case 'null':
+            return `${value} === null`;
+          case 'object':
+            return `(typeof ${value} === ${this.quoteGuard('object')} && ${value} !== null)`;
+          default:
+            return `typeof ${value} === ${this.quoteGuard(node.name)}`;
+        }
+      case 'reference':
+        return `is${node.name}(${value})`;
+      case 'literal':
+        return `${value} === ${TypeNodeUtils.toString(node, this.formatting)}`;
+      case 'format':
+        return node.text === 'Date' ? `${value} instanceof Date` : `typeof ${value} === ${this.quoteGuard('string')}`;
+      case 'array': {
+        const item = depth ? `item${depth + 1}` : 'item';
+        const check = this.typeToGuard(node.element, item, depth + 1);
+        return check === 'true' ? `Array.isArray(${value})` : `Array.isArray(${value}) && ${value}.every(${item} => ${check})`;
+      }
+      case 'tuple': {
+        const checks = node.elements
+          .map((element, index) => this.typeToGuard(element, `${value}[${index}]`, depth))
+          .filter(check => check !== 'true');
+        return [`Array.isArray(${value})`, `${value}.length === ${node.elements.length}`, ...checks].join(' && ');
+      }
+      case 'union': {
+        const checks = node.types.map(type => this.typeToGuard(type, value, depth));
+        return checks.includes('true') ? 'true' : `(${checks.join(' || ')})`;
+      }
+      case 'intersection': {
+        const checks = node.types.map(type => this.typeToGuard(type, value, depth)).filter(check => check !== 'true');
+        return checks.length ? checks.join(' && ') : 'true';
+      }
+      case 'raw': {
+        if (node.text === 'Date') return `${value} instanceof Date`;
+
+        const parsed = TypeNodeUtils.fromTypeString(node.text);
+        return parsed.kind !== 'raw' ? this.typeToGuard(parsed, value, depth) : 'true';
+      }
+    }
+  }
+}
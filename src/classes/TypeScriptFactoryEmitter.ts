@@ -0,0 +1,442 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import ts from 'typescript';
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import FormattingUtils from '~/utils/FormattingUtils';
+import PrinterUtils from '~/utils/PrinterUtils';
+import StringUtils from '~/utils/StringUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConvertOptions, ExportType, FormattingOptions } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { DeclarationNode, EnumDeclarationNode, InterfaceDeclarationNode, KeywordType, PropertyNode, TypeModel, TypeNode } from '~/typings/model';
+
+const factory = ts.factory;
+
+/**
+ * Built-in emitter rendering the type model as TypeScript declarations
+ * through the TypeScript compiler API, used by the `factory` emit mode.
+ *
+ * Produces the same declarations as `TypeScriptEmitter`, but builds them as `ts.factory`
+ * nodes printed by `ts.createPrinter()`, so property names, string literals and custom
+ * type mappings are always quoted, escaped and parenthesized correctly.
+ * The printed code is formatted according to the `formatting` option.
+ *
+ * In the inline mode, used by `JsonToFlattenedTsConverter`, only the root declaration
+ * is rendered, with the declarations it references embedded as type literal nodes.
+ *
+ * @example
+ * ```typescript
+ * const model = new TypeInferrer().infer([{ 'first-name': 'John' }], 'User', 'root');
+ * new TypeScriptFactoryEmitter({ formatting: { quoteStyle: 'single' } }).emit(model, 'root');
+ * // export interface User {
+ * //   'first-name': string;
+ * // }
+ * ```
+ */
+export default class TypeScriptFactoryEmitter implements Emitter {
+  /**
+   * Keyword type syntax kinds, except `null` which is a literal type.
+   */
+  private static readonly KEYWORD_KINDS: Record<Exclude<KeywordType, 'null'>, ts.KeywordTypeSyntaxKind> = {
+    string: ts.SyntaxKind.StringKeyword,
+    number: ts.SyntaxKind.NumberKeyword,
+    boolean: ts.SyntaxKind.BooleanKeyword,
+    bigint: ts.SyntaxKind.BigIntKeyword,
+    symbol: ts.SyntaxKind.SymbolKeyword,
+    undefined: ts.SyntaxKind.UndefinedKeyword,
+    any: ts.SyntaxKind.AnyKeyword,
+    unknown: ts.SyntaxKind.UnknownKeyword,
+    object: ts.SyntaxKind.ObjectKeyword,
+  };
+
+  /**
+   * Formatting options of the rendering process.
+   */
+  private readonly formatting: FormattingOptions;
+
+  /**
+   * Declarations of the rendered model by name, looked up to embed references in the inline mode.
+   */
+  private declarations = new Map<string, DeclarationNode>();
+
+  /**
+   * Creates an instance of TypeScriptFactoryEmitter.
+   * @param options Configuration options for the rendering process.
+   * @param inline Whether to render the root declaration only, with the declarations it references embedded inline.
+   */
+  public constructor(private options: ConvertOptions = {}, private readonly inline: boolean = false) {
+    this.formatting = options.formatting ?? {};
+  }
+
+  /**
+   * Renders the type model as TypeScript code, in the configured declaration order.
+   *
+   * @param model - The type model to render
+   * @param exportType - Export mode configuration
+   * @returns Complete TypeScript interface definitions
+   */
+  public emit({ rootName, declarations }: TypeModel, exportType: ExportType): string {
+    if (this.inline) {
+      this.declarations = new Map(declarations.map(declaration => [declaration.name, declaration]));
+
+      // Without samples the flattened interface has no members
+      const root = declarations.find(declaration => declaration.name === rootName)
+        ?? { kind: 'interface', name: rootName, properties: [], exported: exportType !== 'none', path: '' };
+
+      return FormattingUtils.finish(PrinterUtils.print(this.createDeclaration(root), this.formatting), this.formatting);
+    }
+
+    if (!declarations.length) {
+      const fallback: DeclarationNode = this.options.strict
+        ? { kind: 'alias', name: rootName, type: TypeNodeUtils.keyword('null'), exported: exportType !== 'none', path: '' }
+        : { kind: 'interface', name: rootName, properties: [], additionalProperties: TypeNodeUtils.keyword('unknown'), exported: exportType !== 'none', path: '' };
+
+      return FormattingUtils.finish(PrinterUtils.print(this.createDeclaration(fallback), this.formatting), this.formatting);
+    }
+
+    const statements = FormattingUtils.orderDeclarations(declarations, this.formatting).flatMap(declaration => this.options.typeGuards
+      ? [...this.createDeclaration(declaration), this.createTypeGuard(declaration)]
+      : this.createDeclaration(declaration));
+
+    return FormattingUtils.finish(PrinterUtils.print(statements, this.formatting), this.formatting);
+  }
+
+  /**
+   * Creates the statements of a single declaration of the type model.
+   *
+   * @param declaration - The interface, type alias or enum declaration
+   * @returns The declaration statements, two for `as const` enums
+   */
+  private createDeclaration(declaration: DeclarationNode): ts.Statement[] {
+    const modifiers = this.createModifiers(declaration.exported);
+
+    if (declaration.kind === 'alias') {
+      return [factory.createTypeAliasDeclaration(modifiers, declaration.name, undefined, this.createType(declaration.type, [declaration.name]))];
+    }
+
+    if (declaration.kind === 'enum') {
+      return this.createEnum(declaration);
+    }
+
+    const members = this.createMembers(declaration, [declaration.name]);
+
+    if (this.options.declarationStyle === 'type') {
+      return [factory.createTypeAliasDeclaration(modifiers, declaration.name, undefined, factory.createTypeLiteralNode(members))];
+    }
+
+    return [factory.createInterfaceDeclaration(modifiers, declaration.name, undefined, undefined, members)];
+  }
+
+  /**
+   * Creates the property signatures and index signature of an interface declaration.
+   *
+   * @param declaration - The interface declaration
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The type elements of the interface
+   */
+  private createMembers({ properties, additionalProperties }: InterfaceDeclarationNode, stack: string[]): ts.TypeElement[] {
+    const readonly = this.options.readonlyProperties ? [factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)] : undefined;
+
+    const members: ts.TypeElement[] = properties.map(property => {
+      const optional = property.optional || this.options.optionalProperties;
+      const signature = factory.createPropertySignature(
+        property.readonly || this.options.readonlyProperties ? [factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)] : undefined,
+        this.createPropertyName(property),
+        optional ? factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+        this.createType(property.type, stack),
+      );
+
+      const format = TypeNodeUtils.findFormat(property.type);
+      return format ? ts.addSyntheticLeadingComment(signature, ts.SyntaxKind.MultiLineCommentTrivia, `* @format ${format} `, true) : signature;
+    });
+
+    if (additionalProperties) {
+      const parameter = factory.createParameterDeclaration(undefined, undefined, 'p', undefined, factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword));
+      members.push(factory.createIndexSignature(readonly, [parameter], this.createType(additionalProperties, stack)));
+    }
+
+    return members;
+  }
+
+  /**
+   * Creates the name of a property signature, applying the `propertyCase` option.
+   * Names that are quoted by the template emitter become properly escaped string literals.
+   *
+   * @param property - The property of the type model
+   * @returns The identifier or string literal naming the property
+   */
+  private createPropertyName({ key }: PropertyNode): ts.Identifier | ts.StringLiteral {
+    const name = StringUtils.formatName(key, this.options.propertyCase ?? 'original');
+    const suggested = ConverterUtils.suggestPropertyName(name);
+
+    return suggested.startsWith('"')
+      ? PrinterUtils.stringLiteral(name, this.formatting)
+      : factory.createIdentifier(suggested);
+  }
+
+  /**
+   * Creates an enum declaration of the type model, either as a TypeScript `enum`
+   * or as an `as const` object with a type of its values, according to the `enumStyle` option.
+   *
+   * @param declaration - The enum declaration
+   * @returns The declaration statements
+   */
+  private createEnum({ name, members, exported }: EnumDeclarationNode): ts.Statement[] {
+    if (this.options.enumStyle === 'const') {
+      const entries = members.map(member => factory.createPropertyAssignment(member.name, PrinterUtils.stringLiteral(member.value, this.formatting)));
+      const object = factory.createAsExpression(factory.createObjectLiteralExpression(entries, true), factory.createTypeReferenceNode('const'));
+      const query = factory.createTypeQueryNode(factory.createIdentifier(name));
+
+      return [
+        factory.createVariableStatement(this.createModifiers(exported), factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(name, undefined, undefined, object)],
+          ts.NodeFlags.Const,
+        )),
+        factory.createTypeAliasDeclaration(this.createModifiers(exported), name, undefined, factory.createIndexedAccessTypeNode(
+          query,
+          factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, query),
+        )),
+      ];
+    }
+
+    return [factory.createEnumDeclaration(
+      this.createModifiers(exported),
+      name,
+      members.map(member => factory.createEnumMember(member.name, PrinterUtils.stringLiteral(member.value, this.formatting))),
+    )];
+  }
+
+  /**
+   * Creates the runtime type-guard function of a declaration of the type model.
+   *
+   * @param declaration - The interface, type alias or enum declaration to check
+   * @returns The type-guard function, e.g. `function isUser(value: unknown): value is User`
+   */
+  private createTypeGuard(declaration: DeclarationNode): ts.Statement {
+    const value = factory.createIdentifier('value');
+    const statements: ts.Statement[] = [];
+
+    if (declaration.kind === 'alias') {
+      statements.push(factory.createReturnStatement(this.createGuard(declaration.type, value, 0) ?? factory.createTrue()));
+    } else if (declaration.kind === 'enum') {
+      const values = factory.createAsExpression(
+        factory.createCallExpression(factory.createPropertyAccessExpression(factory.createIdentifier('Object'), 'values'), undefined, [factory.createIdentifier(declaration.name)]),
+        factory.createArrayTypeNode(factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)),
+      );
+      statements.push(factory.createReturnStatement(
+        factory.createCallExpression(factory.createPropertyAccessExpression(factory.createParenthesizedExpression(values), 'includes'), undefined, [value]),
+      ));
+    } else {
+      const obj = factory.createIdentifier('obj');
+      const checks = declaration.properties.map(property => {
+        const name = this.createPropertyName(property);
+        const accessor = ts.isStringLiteral(name)
+          ? factory.createElementAccessExpression(obj, name)
+          : factory.createPropertyAccessExpression(obj, name);
+        const check = this.createGuard(property.type, accessor, 0);
+
+        if (property.optional || this.options.optionalProperties) {
+          return check && factory.createParenthesizedExpression(factory.createLogicalOr(
+            factory.createStrictEquality(accessor, factory.createIdentifier('undefined')),
+            check,
+          ));
+        }
+
+        return check ?? factory.createBinaryExpression(
+          ts.isStringLiteral(name) ? name : PrinterUtils.stringLiteral(name.text, this.formatting),
+          ts.SyntaxKind.InKeyword,
+          obj,
+        );
+      }).filter(check => check !== null);
+
+      const notObject = factory.createLogicalOr(
+        factory.createStrictInequality(factory.createTypeOfExpression(value), PrinterUtils.stringLiteral('object', this.formatting)),
+        factory.createStrictEquality(value, factory.createNull()),
+      );
+      statements.push(ts.setEmitFlags(factory.createIfStatement(notObject, factory.createReturnStatement(factory.createFalse())), ts.EmitFlags.SingleLine));
+
+      if (checks.length) {
+        statements.push(factory.createVariableStatement(undefined, factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(obj, undefined, undefined, factory.createAsExpression(value, factory.createTypeReferenceNode('Record', [
+            factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+            factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+          ])))],
+          ts.NodeFlags.Const,
+        )));
+        statements.push(factory.createReturnStatement(checks.reduce((left, right) => factory.createLogicalAnd(left, right))));
+      } else {
+        statements.push(factory.createReturnStatement(factory.createTrue()));
+      }
+    }
+
+    return factory.createFunctionDeclaration(
+      this.createModifiers(declaration.exported),
+      undefined,
+      `is${declaration.name}`,
+      undefined,
+      [factory.createParameterDeclaration(undefined, undefined, value, undefined, factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword))],
+      factory.createTypePredicateNode(undefined, value, factory.createTypeReferenceNode(declaration.name)),
+      factory.createBlock(statements, true),
+    );
+  }
+
+  /**
+   * Creates the runtime check expression of a type node.
+   *
+   * @param node - The type node to check
+   * @param value - Expression of the value being checked
+   * @param depth - Nesting level of array callbacks, used to name their parameters
+   * @returns The boolean check expression, or null if the type cannot be checked at runtime (e.g. `any`)
+   */
+  private createGuard(node: TypeNode, value: ts.Expression, depth: number): ts.Expression | null {
+    const typeOf = (type: string): ts.Expression => factory.createStrictEquality(factory.createTypeOfExpression(value), PrinterUtils.stringLiteral(type, this.formatting));
+    const instanceOfDate = (): ts.Expression => factory.createBinaryExpression(value, ts.SyntaxKind.InstanceOfKeyword, factory.createIdentifier('Date'));
+    const isArray = (): ts.Expression => factory.createCallExpression(factory.createPropertyAccessExpression(factory.createIdentifier('Array'), 'isArray'), undefined, [value]);
+
+    switch (node.kind) {
+      case 'keyword':
+        switch (node.name) {
+          case 'any':
+          case 'unknown':
+            return null;
+          case 'null':
+            return factory.createStrictEquality(value, factory.createNull());
+          case 'object':
+            return factory.createParenthesizedExpression(factory.createLogicalAnd(typeOf('object'), factory.createStrictInequality(value, factory.createNull())));
+          default:
+            return typeOf(node.name);
+        }
+      case 'reference':
+        return factory.createCallExpression(factory.createIdentifier(`is${node.name}`), undefined, [value]);
+      case 'literal':
+        return factory.createStrictEquality(value, this.createLiteral(node.value));
+      case 'format':
+        return node.text === 'Date' ? instanceOfDate() : typeOf('string');
+      case 'array': {
+        const item = factory.createIdentifier(depth ? `item${depth + 1}` : 'item');
+        const check = this.createGuard(node.element, item, depth + 1);
+        if (!check) return isArray();
+
+        const callback = factory.createArrowFunction(undefined, undefined, [factory.createParameterDeclaration(undefined, undefined, item)], undefined, undefined, check);
+        return factory.createLogicalAnd(isArray(), factory.createCallExpression(factory.createPropertyAccessExpression(value, 'every'), undefined, [callback]));
+      }
+      case 'tuple': {
+        const checks = node.elements
+          .map((element, index) => this.createGuard(element, factory.createElementAccessExpression(value, index), depth))
+          .filter(check => check !== null);
+        const length = factory.createStrictEquality(factory.createPropertyAccessExpression(value, 'length'), factory.createNumericLiteral(node.elements.length));
+        return [isArray(), length, ...checks].reduce((left, right) => factory.createLogicalAnd(left, right));
+      }
+      case 'union': {
+        const checks = node.types.map(type => this.createGuard(type, value, depth));
+        if (checks.some(check => check === null)) return null;
+        return factory.createParenthesizedExpression((checks as ts.Expression[]).reduce((left, right) => factory.createLogicalOr(left, right)));
+      }
+      case 'intersection': {
+        const checks = node.types.map(type => this.createGuard(type, value, depth)).filter(check => check !== null);
+        return checks.length ? checks.reduce((left, right) => factory.createLogicalAnd(left, right)) : null;
+      }
+      case 'raw': {
+        if (node.text === 'Date') return instanceOfDate();
+
+        const parsed = TypeNodeUtils.fromTypeString(node.text);
+        return parsed.kind !== 'raw' ? this.createGuard(parsed, value, depth) : null;
+      }
+    }
+  }
+
+  /**
+   * Creates the type syntax node of a type node, embedding the referenced declarations in the inline mode.
+   *
+   * @param node - The type node
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The TypeScript type node
+   */
+  private createType(node: TypeNode, stack: string[] = []): ts.TypeNode {
+    switch (node.kind) {
+      case 'keyword':
+        return node.name === 'null'
+          ? factory.createLiteralTypeNode(factory.createNull())
+          : factory.createKeywordTypeNode(TypeScriptFactoryEmitter.KEYWORD_KINDS[node.name]);
+      case 'reference':
+        return this.inline ? this.createReference(node.name, stack) : factory.createTypeReferenceNode(node.name);
+      case 'array':
+        return factory.createArrayTypeNode(this.createType(node.element, stack));
+      case 'tuple':
+        return ts.setEmitFlags(factory.createTupleTypeNode(node.elements.map(element => this.createType(element, stack))), ts.EmitFlags.SingleLine);
+      case 'union':
+        // Embedded enums are unions themselves, their members are merged into the outer union
+        return factory.createUnionTypeNode(node.types.flatMap(type => {
+          const member = this.createType(type, stack);
+          return ts.isUnionTypeNode(member) ? [...member.types] : [member];
+        }));
+      case 'intersection':
+        // Union and function members are wrapped in parentheses by the factory
+        return factory.createIntersectionTypeNode(node.types.map(type => this.createType(type, stack)));
+      case 'literal':
+        return factory.createLiteralTypeNode(this.createLiteral(node.value));
+      case 'format':
+      case 'raw':
+        return PrinterUtils.parseType(node.text, this.formatting);
+    }
+  }
+
+  /**
+   * Embeds a referenced declaration in the inline mode: an interface as a type literal,
+   * an alias as its type and an enum as the union of its values. References back to a declaration
+   * being embedded (e.g. a recursive JSON Schema definition) are typed as `any` (`unknown` in strict mode).
+   *
+   * @param name - Name of the referenced declaration
+   * @param stack - Names of the declarations being embedded, outermost first
+   * @returns The TypeScript type node
+   */
+  private createReference(name: string, stack: string[]): ts.TypeNode {
+    const declaration = this.declarations.get(name);
+
+    if (!declaration || stack.includes(name)) {
+      return factory.createKeywordTypeNode(this.options.strict ? ts.SyntaxKind.UnknownKeyword : ts.SyntaxKind.AnyKeyword);
+    }
+
+    switch (declaration.kind) {
+      case 'interface':
+        return factory.createTypeLiteralNode(this.createMembers(declaration, [...stack, name]));
+      case 'alias':
+        return this.createType(declaration.type, [...stack, name]);
+      case 'enum':
+        return factory.createUnionTypeNode(declaration.members.map(member => factory.createLiteralTypeNode(PrinterUtils.stringLiteral(member.value, this.formatting))));
+    }
+  }
+
+  /**
+   * Creates the literal expression of a literal type value.
+   *
+   * @param value - The string, number or boolean value
+   * @returns The literal expression, negative numbers as a prefix unary expression
+   */
+  private createLiteral(value: string | number | boolean): ts.LiteralExpression | ts.BooleanLiteral | ts.PrefixUnaryExpression {
+    if (typeof value === 'string') return PrinterUtils.stringLiteral(value, this.formatting);
+    if (typeof value === 'boolean') return value ? factory.createTrue() : factory.createFalse();
+
+    return value < 0
+      ? factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, factory.createNumericLiteral(-value))
+      : factory.createNumericLiteral(value);
+  }
+
+  /**
+   * Creates the `export` modifier of an exported declaration.
+   *
+   * @param exported - Whether the declaration is exported
+   * @returns The modifiers, or undefined if the declaration is not exported
+   */
+  private createModifiers(exported: boolean): ts.ModifierLike[] | undefined {
+    return exported ? [factory.createModifier(ts.SyntaxKind.ExportKeyword)] : undefined;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import FormattingUtils from '~/utils/FormattingUtils';
+import StringUtils from '~/utils/StringUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
+
+// types
+import type { ConvertOptions, ExportType, StringFormat } from '~/typings/global';
+import type { Emitter } from '~/typings/emitter';
+import type { DeclarationNode, InterfaceDeclarationNode, TypeModel, TypeNode } from '~/typings/model';
+
+/**
+ * Built-in emitter rendering the type model as Zod schemas with their inferred types.
+ *
+ * @example
+ * ```typescript
+ * const model = new TypeInferrer().infer([{ id: 1 }], 'User', 'root');
+ * new ZodEmitter().emit(model, 'root');
+ * // import { z } from 'zod';
+ * //
+ * // export const UserSchema = z.object({
+ * //   id: z.number(),
+ * // });
+ * //
+ * // export type User = z.infer<typeof UserSchema>;
+ * ```
+ */
+export default class ZodEmitter implements Emitter {
+  /**
+   * Keyword types and their Zod schema counterparts.
+   */
+  private static readonly KEYWORD_SCHEMAS: Record<string, string> = {
+    string: 'z.string()',
+    number: 'z.number()',
+    boolean: 'z.boolean()',
+    bigint: 'z.bigint()',
+    symbol: 'z.symbol()',
+    null: 'z.null()',
+    undefined: 'z.undefined()',
+    any: 'z.any()',
+    unknown: 'z.unknown()',
+    object: 'z.object({}).passthrough()',
+  };
+
+  /**
+   * String formats and their Zod string validations.
+   */
+  private static readonly FORMAT_SCHEMAS: Record<StringFormat, string> = {
+    date: 'z.string().date()',
+    'date-time': 'z.string().datetime({ offset: true })',
+    uuid: 'z.string().uuid()',
+    email: 'z.string().email()',
+    uri: 'z.string().url()',
+    ipv4: "z.string().ip({ version: 'v4' })",
+    ipv6: "z.string().ip({ version: 'v6' })",
+    numeric: 'z.string().regex(/^-?\\d+(\\.\\d+)?$/)',
+  };
+
+  /**
+   * Names of the declarations whose schemas have already been emitted.
+   * References to any other declaration are wrapped in `z.lazy()`.
+   */
+  private declared: Set<string> = new Set();
+
+  /**
+   * Names of the declarations referring back to themselves, directly or through other declarations.
+   * Their types are written out, as `z.infer` cannot infer the type of a recursive schema.
+   */
+  private recursive: Set<string> = new Set();
+
+  /**
+   * Whether any schema renames the JSON keys through `.transform()`,
+   * so the input types of the schemas differ from their output types.
+   */
+  private transformed: boolean = false;
+
+  /**
+   * Creates an instance of ZodEmitter.
+   * @param options Configuration options for the rendering process.
+   */
+  public constructor(private options: ConvertOptions = {}) {
+  }
+
+  /**
+   * Generates the Zod schemas of the type model.
+   *
+   * Schemas are declared in dependency order (the root last),
+   * as a schema constant can only be used after its declaration.
+   *
+   * @param model - The type model to render
+   * @param exportType - Export mode configuration
+   * @returns Complete Zod schema code, including the `zod` import
+   */
+  public emit({ rootName, declarations }: TypeModel, exportType: ExportType): string {
+    const exports: string = exportType !== 'none' ? 'export ' : '';
+    const code = [`import { z } from 'zod';`];
+
+    this.declared.clear();
+    this.recursive = this.findRecursive(declarations);
+    this.transformed = declarations.some(declaration => declaration.kind === 'interface' && this.renderKeyMapping(declaration) !== '');
+
+    if (!declarations.length) {
+      const schema = this.options.strict ? 'z.null()' : 'z.record(z.string(), z.unknown())';
+      code.push(this.renderSchema(rootName, schema, exports));
+      return code.join('\n\n');
+    }
+
+    for (const declaration of [...declarations].reverse()) {
+      const exports = declaration.exported ? 'export ' : '';
+      code.push(this.recursive.has(declaration.name)
+        ? this.renderRecursiveSchema(declaration, exports)
+        : this.renderSchema(declaration.name, this.declarationToSchema(declaration), exports));
+      this.declared.add(declaration.name);
+    }
+
+    return code.join('\n\n');
+  }
+
+  /**
+   * Renders a schema constant together with its inferred type.
+   *
+   * @param name - Name of the type
+   * @param schema - Zod schema expression
+   * @param exports - Export keyword prefix, or an empty string
+   * @returns The schema and type declarations
+   */
+  private renderSchema(name: string, schema: string, exports: string): string {
+    return `${exports}const ${name}Schema = ${schema};\n\n${exports}type ${name} = z.infer<typeof ${name}Schema>;`;
+  }
+
+  /**
+   * Renders the schema constant of a recursive declaration, annotated with its written out type,
+   * e.g. `const NodeSchema: z.ZodType<Node> = z.object({ children: z.array(z.lazy(() => NodeSchema)) })`.
+   * Without the annotation the schema would implicitly have the `any` type.
+   *
+   * @param declaration - The interface or type alias declaration
+   * @param exports - Export keyword prefix, or an empty string
+   * @returns The type and schema declarations
+   */
+  private renderRecursiveSchema(declaration: DeclarationNode, exports: string): string {
+    const { name } = declaration;
+    const schemaType = this.transformed ? `z.ZodType<${name}, z.ZodTypeDef, unknown>` : `z.ZodType<${name}>`;
+
+    return `${exports}type ${name} = ${this.declarationToType(declaration)};
+
+${exports}const ${name}Schema: ${schemaType} = ${this.declarationToSchema(declaration)};`;
+  }
+
+  /**
+   * Converts a declaration of the type model into the TypeScript type of its parsed values,
+   * matching the type `z.infer` gives its schema.
+   *
+   * @param declaration - The interface, type alias or enum declaration
+   * @returns The TypeScript type
+   */
+  private declarationToType(declaration: DeclarationNode): string {
+    if (declaration.kind === 'alias') {
+      return this.typeToType(declaration.type);
+    }
+
+    if (declaration.kind === 'enum') {
+      return declaration.members.map(({ value }) => JSON.stringify(value)).join(' | ');
+    }
+
+    const renamed = this.renderKeyMapping(declaration) !== '';
+    const readonly = this.options.readonlyProperties ? 'readonly ' : '';
+    const members = declaration.properties.map(({ key, type, optional }) => {
+      const name = ConverterUtils.suggestPropertyName(renamed ? StringUtils.formatName(key, this.options.propertyCase ?? 'original') : key);
+      const optionalMark = optional || this.options.optionalProperties ? '?' : '';
+      return `  ${readonly}${name}${optionalMark}: ${this.typeToType(type)};`;
+    });
+
+    if (declaration.additionalProperties) {
+      members.push(`  ${readonly}[key: string]: ${this.typeToType(declaration.additionalProperties)};`);
+    }
+
+    return members.length ? `{\n${members.join('\n')}\n}` : '{}';
+  }
+
+  /**
+   * Converts a type node into the TypeScript type of the values parsed by its Zod schema.
+   *
+   * @param node - The type node to convert
+   * @returns The TypeScript type
+   */
+  private typeToType(node: TypeNode): string {
+    switch (node.kind) {
+      case 'array':
+        return ConverterUtils.toArrayType(this.typeToType(node.element));
+      case 'tuple':
+        return `[${node.elements.map(element => this.typeToType(element)).join(', ')}]`;
+      case 'union':
+        return ConverterUtils.unionTypes(node.types.map(type => this.typeToType(type)));
+      case 'intersection':
+        return ConverterUtils.intersectionTypes(node.types.map(type => this.typeToType(type)));
+      case 'format':
+        // Branded and template literal formats are validated as plain strings
+        return node.text === 'Date' ? 'Date' : 'string';
+      default:
+        return TypeNodeUtils.toString(node);
+    }
+  }
+
+  /**
+   * Finds the declarations referring back to themselves, directly or through other declarations.
+   *
+   * @param declarations - The declarations of the type model
+   * @returns The names of the recursive declarations
+   */
+  private findRecursive(declarations: DeclarationNode[]): Set<string> {
+    const byName = new Map(declarations.map(declaration => [declaration.name, declaration]));
+    const recursive = new Set<string>();
+
+    for (const { name } of declarations) {
+      const visited = new Set<string>();
+      const pending = [name];
+
+      while (pending.length) {
+        const declaration = byName.get(pending.pop()!);
+        const references = declaration ? FormattingUtils.findReferences(declaration) : [];
+
+        if (references.includes(name)) {
+          recursive.add(name);
+          break;
+        }
+
+        for (const reference of references.filter(reference => !visited.has(reference))) {
+          visited.add(reference);
+          pending.push(reference);
+        }
+      }
+    }
+
+    return recursive;
+  }
+
+  /**
+   * Converts a declaration of the type model into a Zod schema expression.
+   *
+   * @param declaration - The interface, type alias or enum declaration
+   * @returns The Zod schema expression
+   */
+  private declarationToSchema(declaration: DeclarationNode): string {
+    if (declaration.kind === 'alias') {
+      return this.typeToSchema(declaration.type);
+    }
+
+    if (declaration.kind === 'enum') {
+      return `z.enum([${declaration.members.map(({ value }) => JSON.stringify(value)).join(', ')}])`;
+    }
+
+    const shape = declaration.properties.map(({ key, type, optional }) => {
+      const schema = this.typeToSchema(type);
+      const optionalMark = optional || this.options.optionalProperties ? '.optional()' : '';
+      return `  ${ConverterUtils.suggestPropertyName(key)}: ${schema}${optionalMark},`;
+    });
+
+    const schema = (shape.length ? `z.object({\n${shape.join('\n')}\n})` : 'z.object({})')
+      + (declaration.additionalProperties ? `.catchall(${this.typeToSchema(declaration.additionalProperties)})` : '');
+
+    return schema + this.renderKeyMapping(declaration) + (this.options.readonlyProperties ? '.readonly()' : '');
+  }
+
+  /**
+   * Renders the `.transform()` call renaming the original JSON keys
+   * according to the `propertyCase` option.
+   *
+   * @param declaration - The interface declaration
+   * @returns The transform call, or an empty string if no key is renamed
+   */
+  private renderKeyMapping(declaration: InterfaceDeclarationNode): string {
+    const propertyCase = this.options.propertyCase ?? 'original';
+    const renamed = declaration.properties.some(({ key }) => StringUtils.formatName(key, propertyCase) !== key);
+
+    if (!renamed) return '';
+
+    const mapping = declaration.properties.map(({ key }) => {
+      const name = ConverterUtils.suggestPropertyName(StringUtils.formatName(key, propertyCase));
+      const accessor = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+      return `  ${name}: value${accessor},`;
+    });
+
+    return `.transform(value => ({\n${mapping.join('\n')}\n}))`;
+  }
+
+  /**
+   * Converts a type node into a Zod schema expression.
+   *
+   * @param node - The type node to convert
+   * @returns The Zod schema expression
+   */
+  private typeToSchema(node: TypeNode): string {
+    switch (node.kind) {
+      case 'keyword':
+        return ZodEmitter.KEYWORD_SCHEMAS[node.name];
+      case 'reference':
+        return this.declared.has(node.name) ? `${node.name}Schema` : `z.lazy(() => ${node.name}Schema)`;
+      case 'array':
+        return `z.array(${this.typeToSchema(node.element)})`;
+      case 'tuple':
+        return `z.tuple([${node.elements.map(element => this.typeToSchema(element)).join(', ')}])`;
+      case 'literal':
+        return `z.literal(${JSON.stringify(node.value)})`;
+      case 'format':
+        // Dates typed as `Date` are parsed from their ISO string
+        return node.text === 'Date' ? 'z.coerce.date()' : ZodEmitter.FORMAT_SCHEMAS[node.format];
+      case 'union': {
+        const members = node.types.filter(type => !(type.kind === 'keyword' && type.name === 'null'));
+
+        // A union with null is rendered as a nullable schema, e.g. `z.string().nullable()`
+        if (members.length < node.types.length) {
+          return `${this.typeToSchema(TypeNodeUtils.union(members))}.nullable()`;
+        }
+
+        // Unions of string literals are rendered as an enumeration, e.g. `z.enum(['active', 'banned'])`
+        if (members.every(type => type.kind === 'literal' && typeof type.value === 'string')) {
+          return `z.enum([${members.map(type => JSON.stringify((type as { value: string }).value)).join(', ')}])`;
+        }
+
+        return `z.union([${members.map(type => this.typeToSchema(type)).join(', ')}])`;
+      }
+      case 'intersection':
+        return node.types.map(type => this.typeToSchema(type)).reduce((left, right) => `z.intersection(${left}, ${right})`);
+      case 'raw': {
+        if (node.text === 'Date') return 'z.date()';
+
+        const parsed = TypeNodeUtils.fromTypeString(node.text);
+        return parsed.kind !== 'raw' ? this.typeToSchema(parsed) : `z.custom<${node.text}>()`;
+      }
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * @fileoverview This module provides the main converter classes for transforming JSON data into TypeScript interfaces.
- * It includes both standard and flattened interface generation capabilities, along with utility functions
- * and type definitions for the conversion process.
+ * It includes both standard and flattened interface generation capabilities, JSON Schema and Zod output targets,
+ * the type inference and emitters behind them, along with utility functions and type definitions for the conversion process.
  *
  * @author Junaid Atari <mj.atari@gmail.com>
  * @copyright 2025 Junaid Atari
@@ -11,12 +11,29 @@
  */
 
 // classes
+import ConversionError from '~/classes/ConversionError';
+import JsonParser, { JsonSyntaxError } from '~/classes/JsonParser';
 import JsonToTsConverter from '~/classes/JsonToTsConverter';
 import JsonToFlattenedTsConverter from '~/classes/JsonToFlattenedTsConverter';
+import JsonToJsonSchemaConverter from '~/classes/JsonToJsonSchemaConverter';
+import JsonToZodConverter from '~/classes/JsonToZodConverter';
+import TypeInferrer from '~/classes/TypeInferrer';
+import TypeScriptEmitter from '~/classes/TypeScriptEmitter';
+import TypeScriptFactoryEmitter from '~/classes/TypeScriptFactoryEmitter';
+import JsonSchemaEmitter from '~/classes/JsonSchemaEmitter';
+import ZodEmitter from '~/classes/ZodEmitter';
 
 // utils
 import ConverterUtils from '~/utils/ConverterUtils';
+import TypeNodeUtils from '~/utils/TypeNodeUtils';
 
-export type { ExportType, ConvertOptions, CaseType } from '~/typings/global';
+export type { ExportType, ConvertOptions, CliConfig, ManifestEntry, CaseType, NamingStrategy, DedupeStrategy, DeclarationStyle, EnumStyle, EmitMode, QuoteStyle, MemberSeparator, DeclarationOrder, FormattingOptions, JsonSchema, StringFormat, FormatType, ErrorMode, ConversionErrorCode, ConversionResult, SourcePosition, ConversionWarning, ConversionWarningCode, Logger, ConversionStats, DetailedConversionResult, JsonSyntax } from '~/typings/global';
+export type { ConversionErrorInfo } from '~/classes/ConversionError';
+export type { Emitter } from '~/typings/emitter';
+export type {
+  TypeModel, DeclarationNode, InterfaceDeclarationNode, AliasDeclarationNode, EnumDeclarationNode, EnumMemberNode, PropertyNode,
+  TypeNode, KeywordType, KeywordTypeNode, ReferenceTypeNode, ArrayTypeNode, TupleTypeNode, UnionTypeNode, IntersectionTypeNode, LiteralTypeNode, FormatTypeNode, RawTypeNode,
+} from '~/typings/model';
 
-export { JsonToFlattenedTsConverter, JsonToTsConverter, ConverterUtils };
+export { JsonToFlattenedTsConverter, JsonToTsConverter, JsonToJsonSchemaConverter, JsonToZodConverter, ConverterUtils, ConversionError, JsonParser, JsonSyntaxError };
+export { TypeInferrer, TypeScriptEmitter, TypeScriptFactoryEmitter, JsonSchemaEmitter, ZodEmitter, TypeNodeUtils };
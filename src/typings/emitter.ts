@@ -0,0 +1,41 @@
+/**
+ * Public extension point rendering the intermediate type model
+ * into an output language.
+ *
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import type { ExportType } from '~/typings/global';
+import type { TypeModel } from '~/typings/model';
+
+/**
+ * Renders a type model as source code of an output language.
+ *
+ * The built-in emitters produce TypeScript (`TypeScriptEmitter`), JSON Schema
+ * (`JsonSchemaEmitter`) and Zod (`ZodEmitter`) output. Custom emitters are passed
+ * to any model based converter through the `emitter` option.
+ *
+ * @example
+ * ```typescript
+ * const goEmitter: Emitter = {
+ *   emit: ({ declarations }) => declarations
+ *     .map(declaration => `type ${declaration.name} struct {}`)
+ *     .join('\n\n'),
+ * };
+ *
+ * JsonToTsConverter.convert({ id: 1 }, 'User', 'root', { emitter: goEmitter });
+ * // type User struct {}
+ * ```
+ */
+export interface Emitter {
+  /**
+   * Renders the type model.
+   *
+   * @param model - The type model, root declaration first. Has no declarations when the input holds no samples.
+   * @param exportType - Export strategy for the generated declarations
+   * @returns The rendered output
+   */
+  emit(model: TypeModel, exportType: ExportType): string;
+}
@@ -5,6 +5,8 @@
  */
 
 import { JsonParseError } from '~/utils/ConverterUtils';
+import type ConversionError from '~/classes/ConversionError';
+import type { Emitter } from '~/typings/emitter';
 
 /**
  * Supported case naming conventions for transforming strings.
@@ -27,6 +29,229 @@ export interface ParseResult {
   error?: JsonParseError;
   /** Additional error details for debugging purposes */
   details?: string;
+  /** Position of the error in the input, if known */
+  position?: SourcePosition;
+}
+
+/**
+ * Position in a source text.
+ */
+export interface SourcePosition {
+  /** 1-based line number, lines ending with `\n` or `\r\n` */
+  line: number;
+  /** 1-based column number, in UTF-16 code units (an emoji counts as 2) */
+  column: number;
+  /** UTF-8 byte offset from the start of the text */
+  offset: number;
+}
+
+/**
+ * Codes of the errors a conversion can fail with.
+ * - INVALID_INPUT, INVALID_FORMAT, PARSE_FAILED, UNDEFINED_RESULT, INVALID_SCHEMA: the input could not be parsed (see `JsonParseError`)
+ * - INVALID_NAME: the root name is not a valid identifier
+ * - UNRESOLVED_REFERENCE: a `$ref` of the JSON Schema input points to a missing or external schema
+ * - CONVERSION_FAILED: the parsed input could not be converted
+ */
+export type ConversionErrorCode = keyof typeof JsonParseError | 'INVALID_NAME' | 'UNRESOLVED_REFERENCE' | 'CONVERSION_FAILED';
+
+/**
+ * How a converter reports a failed conversion.
+ * - log: log the error with `console.error()` (or the `logger` option) and return null
+ * - throw: throw a `ConversionError`
+ */
+export type ErrorMode = 'log' | 'throw';
+
+/**
+ * Result of the `tryConvert()` methods of the converters: the generated code, or the error of a failed conversion.
+ */
+export type ConversionResult = { code: string; error: null } | { code: null; error: ConversionError };
+
+/**
+ * Codes of the warnings a conversion can report.
+ * - NAME_COLLISION: a declaration was renamed because its name is taken by a different shape
+ * - CIRCULAR_REFERENCE: a circular reference was typed as `any` (`unknown` in strict mode)
+ * - EMPTY_ARRAY: an array without any items was typed as `any[]` (`unknown[]` in strict mode)
+ */
+export type ConversionWarningCode = 'NAME_COLLISION' | 'CIRCULAR_REFERENCE' | 'EMPTY_ARRAY';
+
+/**
+ * Warning about a questionable spot of a successful conversion.
+ */
+export interface ConversionWarning {
+  /** Machine-readable warning code */
+  code: ConversionWarningCode;
+  /** Human-readable warning message */
+  message: string;
+  /** JSON key path of the value the warning is about, e.g. `posts[].tags` (empty for the root) */
+  path: string;
+}
+
+/**
+ * Receives the messages of the converters instead of the console, see the `logger` option.
+ */
+export interface Logger {
+  /**
+   * Receives a warning of a successful conversion.
+   * @param message - The warning message
+   * @param warning - The warning
+   */
+  warn(message: string, warning: ConversionWarning): void;
+
+  /**
+   * Receives the error of a failed conversion (unless `errorMode` is 'throw').
+   * @param message - The error message
+   * @param error - The error
+   */
+  error(message: string, error: ConversionError): void;
+}
+
+/**
+ * Statistics of a conversion.
+ */
+export interface ConversionStats {
+  /** Number of converted samples (1 for a JSON Schema document) */
+  samples: number;
+  /** Number of generated declarations */
+  declarations: number;
+  /** Number of lines of the generated code */
+  lines: number;
+  /** Duration of the conversion in milliseconds */
+  duration: number;
+}
+
+/**
+ * Result of the `convertDetailed()` methods of the converters.
+ */
+export interface DetailedConversionResult {
+  /** The generated code, or null if the conversion failed */
+  code: string | null;
+  /** Names of the generated declarations, root first */
+  declarations: string[];
+  /** Warnings about questionable spots of the input */
+  warnings: ConversionWarning[];
+  /** Errors the conversion failed with (empty if it succeeded) */
+  errors: ConversionError[];
+  /** Statistics of the conversion */
+  stats: ConversionStats;
+}
+
+/**
+ * Strategy used to rename an interface whose name is already taken by a different shape.
+ * - parent: prefix the name with its parent interface name (e.g. `CompanyAddress`)
+ * - numeric: append a numeric suffix (e.g. `Address2`)
+ */
+export type NamingStrategy = 'parent' | 'numeric';
+
+/**
+ * Strategy for structurally identical interfaces generated under different names.
+ * - none: emit every interface as-is
+ * - reference: emit one canonical interface and reference it everywhere
+ * - alias: emit one canonical interface and the others as type aliases of it
+ */
+export type DedupeStrategy = 'none' | 'reference' | 'alias';
+
+/**
+ * Keyword used for the generated object type declarations.
+ * - interface: `interface User { ... }`
+ * - type: `type User = { ... };`
+ */
+export type DeclarationStyle = 'interface' | 'type';
+
+/**
+ * How string properties holding a small set of repeated values are typed.
+ * - none: plain `string`
+ * - union: string-literal union, e.g. `"ACTIVE" | "PENDING"`
+ * - enum: named TypeScript enum, e.g. `enum Status { Active = "ACTIVE" }`
+ * - const: named `as const` object with a type of its values
+ */
+export type EnumStyle = 'none' | 'union' | 'enum' | 'const';
+
+/**
+ * How the TypeScript output is built.
+ * - template: string templates (fastest)
+ * - factory: `ts.factory` nodes printed by the TypeScript compiler printer, always syntactically valid
+ */
+export type EmitMode = 'template' | 'factory';
+
+/**
+ * Syntax of JSON string input.
+ * - json: strict JSON
+ * - jsonc: JSON with comments and trailing commas, e.g. `tsconfig.json`
+ * - json5: JSON5, adding unquoted keys, single-quoted strings, hexadecimal numbers, `Infinity` and `NaN` to JSONC
+ */
+export type JsonSyntax = 'json' | 'jsonc' | 'json5';
+
+/**
+ * Quote character of the generated string literals and quoted property names.
+ */
+export type QuoteStyle = 'double' | 'single';
+
+/**
+ * Separator written after each member of an interface or object type.
+ * - semicolon: `id: number;`
+ * - comma: `id: number,`
+ * - none: `id: number`, statements are written without semicolons too
+ */
+export type MemberSeparator = 'semicolon' | 'comma' | 'none';
+
+/**
+ * Order of the generated declarations.
+ * - appearance: root first, the others in order of appearance in the data
+ * - alphabetical: root first, the others sorted by name
+ * - dependency: every declaration after the declarations it references, root last
+ */
+export type DeclarationOrder = 'appearance' | 'alphabetical' | 'dependency';
+
+/**
+ * Formatting of the generated TypeScript code.
+ */
+export interface FormattingOptions {
+  /**
+   * Number of spaces per indentation level, or 'tab' to indent with tabs.
+   * @default 2
+   */
+  indent?: number | 'tab';
+
+  /**
+   * Separator written after each member of an interface or object type.
+   * @default 'semicolon'
+   */
+  memberSeparator?: MemberSeparator;
+
+  /**
+   * Quote character of string literal types and quoted property names.
+   * Custom type mappings are written as given.
+   * @default 'double'
+   */
+  quoteStyle?: QuoteStyle;
+
+  /**
+   * End the generated code with a newline.
+   * @default false
+   */
+  trailingNewline?: boolean;
+
+  /**
+   * Number of blank lines between declarations.
+   * @default 1
+   */
+  blankLines?: number;
+
+  /**
+   * Order of the generated declarations.
+   * @default 'appearance'
+   */
+  declarationOrder?: DeclarationOrder;
+}
+
+/**
+ * A property gathered from one or more sample objects.
+ */
+export interface CollectedProperty {
+  /** Every value found for the property, in sample order */
+  values: unknown[];
+  /** Whether the property is missing from at least one of the samples */
+  optional: boolean;
 }
 
 /**
@@ -77,11 +302,17 @@ export interface ConvertOptions {
 
   /**
    * Custom type mapping for specific JSON structures.
-   * Allows overriding default type detection logic.
+   * Allows overriding default type detection logic. Keys can be:
+   * - JSON key paths, e.g. `user.id`, with `[]` addressing array elements (`items[].createdAt`)
+   * - key paths with wildcards, `*` matching one segment and `**` any number of segments (`**.uuid`)
+   * - property names matching at any depth, e.g. `user_id`
+   * - primitive type names overriding every value of that type, e.g. `string`
+   *
+   * Exact key paths take precedence over wildcard paths, which take precedence over property names.
    * @example
-   * // { "user_id": "123" }
-   * // With typeMap: { "user_id": "UserID" }
-   * // -> { user_id: UserID }
+   * // { "user_id": "123", "items": [{ "createdAt": "2025-01-01" }] }
+   * // With typeMap: { "user_id": "UserID", "items[].createdAt": "ISODateString" }
+   * // -> { user_id: UserID; items: Item[] } and interface Item { createdAt: ISODateString; }
    */
   typeMap?: Record<string, string>;
 
@@ -120,4 +351,307 @@ export interface ConvertOptions {
    * // { "name": "John" } -> { name: string }
    */
   optionalProperties?: boolean;
+
+  /**
+   * Strategy for naming nested interfaces whose name collides with a structurally
+   * different interface. Identically shaped objects always share one interface.
+   * @default 'parent'
+   * @example
+   * // { "user": { "address": { "city": "A" } }, "company": { "address": { "zip": 1 } } }
+   * // With namingStrategy: 'parent'
+   * // -> interface Address { city: string; } and interface CompanyAddress { zip: number; }
+   * // With namingStrategy: 'numeric'
+   * // -> interface Address { city: string; } and interface Address2 { zip: number; }
+   */
+  namingStrategy?: NamingStrategy;
+
+  /**
+   * Deduplicate nested interfaces that have an identical structure but different names.
+   * @default 'none'
+   * @example
+   * // { "billingAddress": { "city": "A" }, "shippingAddress": { "city": "B" } }
+   * // With dedupeInterfaces: 'reference'
+   * // -> { billingAddress: BillingAddress; shippingAddress: BillingAddress; }
+   * // With dedupeInterfaces: 'alias'
+   * // -> { billingAddress: BillingAddress; shippingAddress: ShippingAddress; }
+   * //    type ShippingAddress = BillingAddress;
+   */
+  dedupeInterfaces?: DedupeStrategy;
+
+  /**
+   * Generate a runtime type-guard function alongside each interface.
+   * Guards check property presence and types recursively, including arrays and tuples.
+   * Only supported by `JsonToTsConverter`.
+   * @default false
+   * @example
+   * // With typeGuards: true
+   * // { "id": 1 } -> interface User { id: number; }
+   * //    function isUser(value: unknown): value is User { ... }
+   */
+  typeGuards?: boolean;
+
+  /**
+   * Detect the format of string values (ISO dates, UUIDs, emails, URLs, IP addresses
+   * and numeric strings). Detected formats are exposed as a JSDoc `@format` tag,
+   * and their type is configured by `formatTypes`.
+   * @default false
+   * @example
+   * // { "id": "123e4567-e89b-12d3-a456-426614174000" }
+   * // With detectFormats: true
+   * // -> { /** @format uuid *\/ id: string; }
+   */
+  detectFormats?: boolean;
+
+  /**
+   * Type emitted for each detected string format, when `detectFormats` is enabled.
+   * Formats without an entry are typed as `string`.
+   * @default {}
+   * @example
+   * // With formatTypes: { uuid: 'branded', 'date-time': 'date', date: 'template' }
+   * // -> id: string & { __brand: 'Uuid' }; createdAt: Date; day: `${number}-${number}-${number}`;
+   */
+  formatTypes?: Partial<Record<StringFormat, FormatType>>;
+
+  /**
+   * Keyword used for every generated object type declaration, including the root.
+   * Type aliases compose with intersections and mapped types.
+   * @default 'interface'
+   * @example
+   * // { "id": 1 }
+   * // With declarationStyle: 'interface'
+   * // -> interface RootObject { id: number; }
+   * // With declarationStyle: 'type'
+   * // -> type RootObject = { id: number; };
+   */
+  declarationStyle?: DeclarationStyle;
+
+  /**
+   * Custom emitter rendering the inferred type model in place of the converter's built-in output,
+   * e.g. to generate another language. `JsonToFlattenedTsConverter` passes it the model with separate
+   * nested declarations, as it only embeds them in its built-in output.
+   * @default undefined
+   * @example
+   * // With emitter: { emit: model => model.declarations.map(d => d.name).join('\n') }
+   * // { "id": 1, "profile": { "name": "John" } } -> "RootObject\nProfile"
+   */
+  emitter?: Emitter;
+
+  /**
+   * How the TypeScript output is built. The 'factory' mode builds `ts.factory` nodes and prints them
+   * with the TypeScript compiler printer, so property names and string literals are always quoted
+   * and escaped correctly.
+   * Requires the `typescript` package.
+   * @default 'template'
+   * @example
+   * // { "say \"hi\"": "hello" }
+   * // With emitMode: 'template'
+   * // -> "say "hi"": string;
+   * // With emitMode: 'factory'
+   * // -> "say \"hi\"": string;
+   */
+  emitMode?: EmitMode;
+
+  /**
+   * Formatting of the generated TypeScript code: indentation, member separator, quote style,
+   * trailing newline, blank lines between declarations and declaration order.
+   * Honoured by `JsonToTsConverter` and `JsonToFlattenedTsConverter`, in both emit modes.
+   * @default {}
+   * @example
+   * // { "first-name": "John", "age": 30 }
+   * // With formatting: { indent: 4, memberSeparator: 'none', quoteStyle: 'single' }
+   * // -> interface RootObject {
+   * //        'first-name': string
+   * //        age: number
+   * //    }
+   */
+  formatting?: FormattingOptions;
+
+  /**
+   * Type string properties holding a small set of repeated values as literal unions
+   * or named enums. Values are gathered per property across array elements and samples,
+   * and only repeated values below the `enumThreshold` cardinality are considered.
+   * `JsonToFlattenedTsConverter` renders the 'enum' and 'const' styles as literal unions.
+   * @default 'none'
+   * @example
+   * // [{ "status": "ACTIVE" }, { "status": "CLOSED" }, { "status": "ACTIVE" }]
+   * // With enumStyle: 'union'
+   * // -> status: "ACTIVE" | "CLOSED";
+   * // With enumStyle: 'enum'
+   * // -> status: Status; and enum Status { Active = "ACTIVE", Closed = "CLOSED" }
+   * // With enumStyle: 'const'
+   * // -> status: Status; and const Status = { Active: "ACTIVE", Closed: "CLOSED" } as const;
+   */
+  enumStyle?: EnumStyle;
+
+  /**
+   * Maximum number of distinct values of a property typed according to `enumStyle`.
+   * @default 10
+   */
+  enumThreshold?: number;
+
+  /**
+   * How a failed conversion is reported: logged with `console.error()` returning null,
+   * or thrown as a `ConversionError` with the error code, position and a code frame of the input.
+   * @default 'log'
+   * @example
+   * // With errorMode: 'throw'
+   * // '{"id": 1,,}' -> throws ConversionError { code: 'PARSE_FAILED', line: 1, column: 10, ... }
+   */
+  errorMode?: ErrorMode;
+
+  /**
+   * Receives the warnings and the logged errors of the conversion instead of the console.
+   * Without a logger, errors are logged with `console.error()` and warnings are dropped.
+   * @example
+   * // { warn: (message) => log.warn(message), error: (message) => log.error(message) }
+   * // {"tags": []} -> warn('Empty array at "tags": typed as any[]', { code: 'EMPTY_ARRAY', ... })
+   */
+  logger?: Logger;
+
+  /**
+   * Syntax of JSON string input. The lenient syntaxes are parsed by `JsonParser`,
+   * reporting the exact position of syntax errors like strict JSON.
+   * @default 'json'
+   * @example
+   * // With syntax: 'jsonc'
+   * // '{ "strict": true, // comment\n }' -> { strict: true }
+   * // With syntax: 'json5'
+   * // "{ id: 0x1F, name: 'John', }" -> { id: 31, name: 'John' }
+   */
+  syntax?: JsonSyntax;
+}
+
+/**
+ * Settings of the `json2ts` command line interface, read from a config file
+ * (`json2ts.config.json`, `.json2tsrc`, `json2ts.config.js` or the `json2ts` key of `package.json`).
+ * Command line flags override the values of the file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "User",
+ *   "export": "all",
+ *   "output": "src/types/user.ts",
+ *   "options": { "propertyCase": "camel", "strict": true, "formatting": { "indent": 4 } }
+ * }
+ * ```
+ */
+export interface CliConfig {
+  /**
+   * Name of the root declaration.
+   * @default 'RootObject'
+   */
+  name?: string;
+
+  /**
+   * Export type of the generated declarations.
+   * @default 'root'
+   */
+  export?: ExportType;
+
+  /**
+   * Output format of the generated code.
+   * @default 'ts'
+   */
+  format?: 'ts' | 'json-schema' | 'zod';
+
+  /**
+   * Whether to generate a single flattened interface (TypeScript output only).
+   * @default false
+   */
+  flat?: boolean;
+
+  /**
+   * Whether the input is a JSON Schema document instead of a JSON sample.
+   * @default false
+   */
+  fromSchema?: boolean;
+
+  /**
+   * Path of the file the generated code is written to, relative to the config file.
+   * The code is printed to the console if not set.
+   */
+  output?: string;
+
+  /**
+   * Default conversion options.
+   */
+  options?: ConvertOptions;
+}
+
+/**
+ * An entry of a `json2ts --manifest` file, converting the input file(s) into one output file.
+ * The settings of the entry override the config file and the command line flags,
+ * paths are relative to the manifest file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "entries": [
+ *     { "input": "samples/user.json", "name": "User", "output": "src/types/user.ts" },
+ *     { "input": "samples/orders/*.json", "name": "Order", "output": "src/types/order.ts", "options": { "enumStyle": "union" } }
+ *   ]
+ * }
+ * ```
+ */
+export interface ManifestEntry extends CliConfig {
+  /**
+   * Path(s) or glob pattern(s) of the JSON files, converted as samples of the same structure.
+   */
+  input: string | string[];
+
+  /**
+   * Path of the file the generated code is written to.
+   */
+  output: string;
+}
+
+/**
+ * String formats recognised by the format detection.
+ * - date: ISO 8601 date, e.g. `2025-01-31`
+ * - date-time: ISO 8601 date and time, e.g. `2025-01-31T10:00:00Z`
+ * - uuid: UUID, e.g. `123e4567-e89b-12d3-a456-426614174000`
+ * - email: email address
+ * - uri: URL with a scheme, e.g. `https://example.com`
+ * - ipv4: IPv4 address, e.g. `192.168.0.1`
+ * - ipv6: IPv6 address, e.g. `::1`
+ * - numeric: number stored as a string, e.g. `"42.5"`
+ */
+export type StringFormat = 'date' | 'date-time' | 'uuid' | 'email' | 'uri' | 'ipv4' | 'ipv6' | 'numeric';
+
+/**
+ * Type emitted for a detected string format.
+ * - string: plain `string`
+ * - date: `Date` for date and date-time formats, `string` for the others
+ * - branded: branded string, e.g. `string & { __brand: 'Uuid' }`
+ * - template: template literal type, e.g. `` `${number}-${number}-${number}` ``
+ * - any other value is used verbatim as the type, e.g. `'ISODateString'`
+ */
+export type FormatType = 'string' | 'date' | 'branded' | 'template' | (string & {});
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ * Only the keywords emitted by the converters are typed; any other keyword is allowed.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  title?: string;
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: boolean | JsonSchema | JsonSchema[];
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  readOnly?: boolean;
+  [keyword: string]: unknown;
 }
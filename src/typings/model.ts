@@ -0,0 +1,199 @@
+/**
+ * Intermediate type model produced by the type inference step
+ * and rendered by the individual output targets.
+ *
+ * The model only holds plain data, so it can be serialised with `JSON.stringify()`,
+ * diffed or post-processed. It is returned by the `analyze()` methods of the converters.
+ *
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import type { StringFormat } from '~/typings/global';
+
+/**
+ * Built-in keyword types a type node can refer to.
+ */
+export type KeywordType = 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'null' | 'undefined' | 'any' | 'unknown' | 'object';
+
+/**
+ * A keyword type, e.g. `string` or `null`.
+ */
+export interface KeywordTypeNode {
+  kind: 'keyword';
+  /** The keyword type name */
+  name: KeywordType;
+}
+
+/**
+ * A reference to another declaration of the model, e.g. `Address`.
+ */
+export interface ReferenceTypeNode {
+  kind: 'reference';
+  /** Name of the referenced declaration */
+  name: string;
+}
+
+/**
+ * An array type, e.g. `Post[]`.
+ */
+export interface ArrayTypeNode {
+  kind: 'array';
+  /** Type of the array elements */
+  element: TypeNode;
+}
+
+/**
+ * A fixed-length tuple type, e.g. `[number, string]`.
+ */
+export interface TupleTypeNode {
+  kind: 'tuple';
+  /** Types of the tuple elements, in order */
+  elements: TypeNode[];
+}
+
+/**
+ * A union type, e.g. `string | null`.
+ */
+export interface UnionTypeNode {
+  kind: 'union';
+  /** Members of the union */
+  types: TypeNode[];
+}
+
+/**
+ * An intersection type, e.g. `Base & Extra`, from the JSON Schema `allOf` keyword.
+ */
+export interface IntersectionTypeNode {
+  kind: 'intersection';
+  /** Members of the intersection */
+  types: TypeNode[];
+}
+
+/**
+ * A literal type, e.g. `"active"`, `42` or `true`.
+ */
+export interface LiteralTypeNode {
+  kind: 'literal';
+  /** The literal value, `null` is represented by the `null` keyword type */
+  value: string | number | boolean;
+}
+
+/**
+ * A string of a detected format, e.g. a UUID typed as `string & { __brand: 'Uuid' }`.
+ */
+export interface FormatTypeNode {
+  kind: 'format';
+  /** The detected string format */
+  format: StringFormat;
+  /** The TypeScript type text emitted for the format */
+  text: string;
+}
+
+/**
+ * A type that has no structured representation, kept as TypeScript text.
+ * Used for built-in objects (`Date`, `Map<string, number>`), functions and custom type mappings.
+ */
+export interface RawTypeNode {
+  kind: 'raw';
+  /** The TypeScript type text */
+  text: string;
+}
+
+/**
+ * Any node describing a type.
+ */
+export type TypeNode = KeywordTypeNode | ReferenceTypeNode | ArrayTypeNode | TupleTypeNode | UnionTypeNode | IntersectionTypeNode | LiteralTypeNode | FormatTypeNode | RawTypeNode;
+
+/**
+ * A property of an interface declaration.
+ */
+export interface PropertyNode {
+  /** The original property key from the JSON data, the description of symbol keys */
+  key: string;
+  /** Type of the property value */
+  type: TypeNode;
+  /** Whether the property is missing from some of the samples (or not required by the schema) */
+  optional: boolean;
+  /** Whether the property is readonly */
+  readonly: boolean;
+  /** Whether the property value can be null */
+  nullable: boolean;
+  /** JSON key path of the property in the source data, e.g. `items[].createdAt` */
+  path: string;
+}
+
+/**
+ * An interface declaration, e.g. `interface User { ... }`.
+ */
+export interface InterfaceDeclarationNode {
+  kind: 'interface';
+  /** Name of the interface */
+  name: string;
+  /** Properties of the interface, in order of appearance */
+  properties: PropertyNode[];
+  /** Type of the values of any additional keys, rendered as an index signature */
+  additionalProperties?: TypeNode;
+  /** Whether the declaration is exported */
+  exported: boolean;
+  /** JSON key path of the values the declaration was first generated for, empty for the root */
+  path: string;
+}
+
+/**
+ * A type alias declaration, e.g. `type ShippingAddress = BillingAddress`.
+ */
+export interface AliasDeclarationNode {
+  kind: 'alias';
+  /** Name of the alias */
+  name: string;
+  /** The aliased type */
+  type: TypeNode;
+  /** Whether the declaration is exported */
+  exported: boolean;
+  /** JSON key path of the values the declaration was first generated for, empty for the root */
+  path: string;
+}
+
+/**
+ * A member of an enum declaration, e.g. `Active = "ACTIVE"`.
+ */
+export interface EnumMemberNode {
+  /** Name of the member, a valid identifier */
+  name: string;
+  /** The string value of the member */
+  value: string;
+}
+
+/**
+ * An enumeration of string values, e.g. `enum Status { ... }` or an `as const` object.
+ */
+export interface EnumDeclarationNode {
+  kind: 'enum';
+  /** Name of the enum */
+  name: string;
+  /** Members of the enum, in order of appearance */
+  members: EnumMemberNode[];
+  /** Whether the declaration is exported */
+  exported: boolean;
+  /** JSON key path of the values the declaration was first generated for, empty for the root */
+  path: string;
+}
+
+/**
+ * Any declaration of the model.
+ */
+export type DeclarationNode = InterfaceDeclarationNode | AliasDeclarationNode | EnumDeclarationNode;
+
+/**
+ * The complete result of type inference.
+ */
+export interface TypeModel {
+  /** Name of the root declaration */
+  rootName: string;
+  /**
+   * Generated declarations, root first. Empty when there are no samples.
+   */
+  declarations: DeclarationNode[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Code frame utility methods, locating and highlighting positions in source text
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// types
+import type { SourcePosition } from '~/typings/global';
+
+export default abstract class CodeFrameUtils {
+  /**
+   * Number of lines shown before and after the highlighted line.
+   */
+  private static readonly CONTEXT_LINES = 2;
+
+  /**
+   * Maximum number of characters shown of each line, e.g. of minified JSON.
+   */
+  private static readonly MAX_WIDTH = 80;
+
+  /**
+   * Locates a character index in source text.
+   * Lines end with `\n` or `\r\n`, like the lines of `create()`.
+   *
+   * @param text - The source text
+   * @param index - The index of the character (UTF-16 code units, as reported by `JSON.parse`)
+   * @returns The 1-based line and column (in UTF-16 code units) and the UTF-8 byte offset of the character
+   *
+   * @example
+   * ```typescript
+   * CodeFrameUtils.locate('{\n  "a": 1,,\n}', 11); // { line: 2, column: 10, offset: 11 }
+   * ```
+   */
+  public static locate(text: string, index: number): SourcePosition {
+    const before = text.slice(0, index);
+    const lines = before.split(/\r?\n/);
+
+    return {
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+      offset: new TextEncoder().encode(before).length,
+    };
+  }
+
+  /**
+   * Creates a code frame: the lines around a position, with the line marked by `>`
+   * and the column marked by a caret. Long lines are cut around the column.
+   *
+   * @param text - The source text
+   * @param position - The 1-based line and column to highlight
+   * @returns The code frame
+   *
+   * @example
+   * ```typescript
+   * CodeFrameUtils.create('{\n  "a": 1,,\n}', { line: 2, column: 10 });
+   * //   1 | {
+   * // > 2 |   "a": 1,,
+   * //     |          ^
+   * //   3 | }
+   * ```
+   */
+  public static create(text: string, position: Pick<SourcePosition, 'line' | 'column'>): string {
+    const lines = text.split(/\r?\n/);
+    const first = Math.max(1, position.line - this.CONTEXT_LINES);
+    const last = Math.min(lines.length, position.line + this.CONTEXT_LINES);
+    const width = String(last).length;
+
+    // Lines are cut to the same window, so the columns stay aligned
+    const current = lines[position.line - 1] ?? '';
+    const start = current.length > this.MAX_WIDTH
+      ? Math.max(0, Math.min(position.column - 1 - this.MAX_WIDTH / 2, current.length - this.MAX_WIDTH))
+      : 0;
+    const cut = (line: string): string => {
+      const visible = line.slice(start, start + this.MAX_WIDTH);
+      return `${start > 0 ? '…' : ''}${visible}${start + this.MAX_WIDTH < line.length ? '…' : ''}`;
+    };
+
+    const frame: string[] = [];
+    for (let number = first; number <= last; number++) {
+      const code = cut(lines[number - 1]);
+      const gutter = `${number === position.line ? '>' : ' '} ${String(number).padStart(width)} |`;
+      frame.push(code ? `${gutter} ${code}` : gutter);
+
+      if (number === position.line) {
+        const padding = `${start > 0 ? ' ' : ''}${lines[number - 1].slice(start, position.column - 1)}`.replace(/[^\t]/g, ' ');
+        frame.push(`  ${' '.repeat(width)} | ${padding}^`);
+      }
+    }
+
+    return frame.join('\n');
+  }
+}
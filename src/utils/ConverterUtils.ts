@@ -15,11 +15,16 @@
  * @see https://github.com/blacksmoke26
  */
 
+// classes
+import JsonParser, { JsonSyntaxError } from '~/classes/JsonParser';
+
 // utils
+import CodeFrameUtils from '~/utils/CodeFrameUtils';
+import FormattingUtils from '~/utils/FormattingUtils';
 import StringUtils from '~/utils/StringUtils';
 
 // types
-import type { ConvertOptions, ParseResult } from '~/typings/global';
+import type { CollectedProperty, ConversionWarning, ConversionWarningCode, ConvertOptions, DeclarationStyle, FormattingOptions, JsonSyntax, ParseResult } from '~/typings/global';
 import { pascalCase } from 'change-case';
 
 /**
@@ -29,7 +34,8 @@ export enum JsonParseError {
   INVALID_INPUT = 'Invalid input: provided value cannot be parsed',
   INVALID_FORMAT = 'Invalid JSON format: input does not appear to be valid JSON',
   PARSE_FAILED = 'JSON parsing failed',
-  UNDEFINED_RESULT = 'Invalid JSON: parsed result is undefined'
+  UNDEFINED_RESULT = 'Invalid JSON: parsed result is undefined',
+  INVALID_SCHEMA = 'Invalid JSON Schema: document must be an object or a boolean'
 }
 
 /**
@@ -391,8 +397,8 @@ export default abstract class ConverterUtils {
       return keyStr;
     } else if (isValidIdentifier) { // For valid identifiers that don't start with lowercase, quote them
       return `"${keyStr}"`;
-    } else // Quote all other cases (spaces, special chars, unicode, etc.)
-      return `"${keyStr}"`;
+    } else // Quote and escape all other cases (spaces, special chars, unicode, etc.)
+      return JSON.stringify(keyStr);
   }
 
   /**
@@ -423,12 +429,15 @@ export default abstract class ConverterUtils {
    * @param json The JSON string, object, or null/undefined value to parse.
    *             When a non-string value is provided, it's returned as-is.
    *             When a string is provided, it undergoes validation and parsing.
+   * @param syntax The syntax of a JSON string (default: 'json'). JSONC and JSON5 strings are parsed
+   *               by `JsonParser`, skipping the first character check.
    *
    * @returns ParseResult object containing:
    *          - data: The parsed JSON object/array/primitive, or null if parsing failed
    *          - error: JsonParseError enum value if parsing failed, undefined otherwise
    *          - details: Human-readable error message with context for debugging,
    *                    including position information and input snippets when applicable
+   *          - position: Line, column and byte offset of the error in the input, when known
    *
    * @example
    * ```typescript
@@ -445,7 +454,8 @@ export default abstract class ConverterUtils {
    * // returns: {
    * //   data: null,
    * //   error: JsonParseError.PARSE_FAILED,
-   * //   details: "at position 15: Unexpected end of JSON input\nInput: {\"name\": \"John\""
+   * //   details: "at position 15: Unexpected end of JSON input\nInput: {\"name\": \"John\"",
+   * //   position: { line: 1, column: 16, offset: 15 }
    * // }
    *
    * // Empty string
@@ -463,9 +473,13 @@ export default abstract class ConverterUtils {
    *   error: JsonParseError.INVALID_FORMAT,
    *   details: "Input starts with 'h', expected JSON value"
    * }
+   *
+   * // JSONC with a comment and a trailing comma
+   * const result6 = ConverterUtils.jsonParse('{\n  // Compiler options\n  "strict": true,\n}', 'jsonc');
+   * // returns: { data: { strict: true } }
    * ```
    */
-  public static jsonParse(json: string | unknown | null): ParseResult {
+  public static jsonParse(json: string | unknown | null, syntax: JsonSyntax = 'json'): ParseResult {
     // Handle null/undefined
     if (json === null) {
       return { data: null, error: JsonParseError.INVALID_INPUT, details: 'Input is null or undefined' };
@@ -482,12 +496,18 @@ export default abstract class ConverterUtils {
       return { data: null, error: JsonParseError.INVALID_INPUT, details: 'Input is empty or whitespace' };
     }
 
+    const leading = json.length - json.trimStart().length;
+    if (syntax !== 'json') {
+      return this.lenientJsonParse(json, trimmed, leading, syntax);
+    }
+
     // Quick format validation
     if (!this.JSON_START_CHARS.has(trimmed[0])) {
       return {
         data: null,
         error: JsonParseError.INVALID_FORMAT,
-        details: `Input starts with '${trimmed[0]}', expected JSON value`,
+        details: `Input starts with '${trimmed[0]}', expected JSON value${this.suggestSyntax(trimmed)}`,
+        position: CodeFrameUtils.locate(json, leading),
       };
     }
 
@@ -500,18 +520,132 @@ export default abstract class ConverterUtils {
 
       return { data: parsed };
     } catch (e: any) {
-      const position = e.message.match(/position (\d+)/)?.[1] || 'unknown';
+      // JSON.parse() does not report the position of every error, e.g. `Unexpected token '}', "{"id": }" is not valid JSON`
+      const position = this.locateJsonError(trimmed) ?? Number(e.message.match(/position (\d+)/)?.[1] ?? trimmed.length);
       const snippet = trimmed.length > 100 ? `${trimmed.substring(0, 97)}...` : trimmed;
-      const details = `at position ${position}: ${e.message}\nInput: ${snippet}`;
+      const details = `at position ${position}: ${e.message}${this.suggestSyntax(trimmed)}\nInput: ${snippet}`;
 
       return {
         data: null,
         error: JsonParseError.PARSE_FAILED,
         details,
+        position: CodeFrameUtils.locate(json, leading + position),
       };
     }
   }
 
+  /**
+   * Parses JSONC or JSON5 text with `JsonParser`.
+   *
+   * @param json - The whole input
+   * @param trimmed - The input without leading and trailing whitespace
+   * @param leading - Length of the leading whitespace of the input
+   * @param syntax - The syntax of the input
+   * @returns The parse result, with the position of the error if parsing failed
+   */
+  private static lenientJsonParse(json: string, trimmed: string, leading: number, syntax: JsonSyntax): ParseResult {
+    try {
+      return { data: JsonParser.parse(trimmed, syntax) };
+    } catch (e: any) {
+      if (!(e instanceof JsonSyntaxError)) throw e;
+
+      const snippet = trimmed.length > 100 ? `${trimmed.substring(0, 97)}...` : trimmed;
+
+      return {
+        data: null,
+        error: JsonParseError.PARSE_FAILED,
+        details: `at position ${e.index}: ${e.message} (${syntax.toUpperCase()})\nInput: ${snippet}`,
+        position: CodeFrameUtils.locate(json, leading + e.index),
+      };
+    }
+  }
+
+  /**
+   * Suggests a lenient syntax for invalid JSON text, e.g. JSON with comments.
+   *
+   * @param json - The invalid JSON text
+   * @returns The suggestion to append to the error details, empty if the text is not valid JSONC or JSON5 either
+   */
+  private static suggestSyntax(json: string): string {
+    const syntax = (['jsonc', 'json5'] as const).find(syntax => {
+      try {
+        JsonParser.parse(json, syntax);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+
+    return syntax ? ` (the input is valid ${syntax.toUpperCase()}, parse it with the '${syntax}' syntax)` : '';
+  }
+
+  /**
+   * Detects the syntax of a JSON file by its extension: `.jsonc` files are JSONC, `.json5` files JSON5.
+   *
+   * @param fileName - The name or path of the file
+   * @returns The syntax of the file, 'json' for any other extension
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.detectSyntax('config/app.json5'); // 'json5'
+   * ConverterUtils.detectSyntax('.vscode/settings.jsonc'); // 'jsonc'
+   * ConverterUtils.detectSyntax('user.json'); // 'json'
+   * ```
+   */
+  public static detectSyntax(fileName: string): JsonSyntax {
+    const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+    return extension === 'jsonc' || extension === 'json5' ? extension : 'json';
+  }
+
+  /**
+   * Locates the first syntax error of invalid JSON text.
+   *
+   * @param json - The JSON text
+   * @returns The index of the offending character, or null if the text is valid JSON
+   */
+  private static locateJsonError(json: string): number | null {
+    try {
+      JsonParser.parse(json);
+      return null;
+    } catch (e) {
+      return e instanceof JsonSyntaxError ? e.index : null;
+    }
+  }
+
+  /**
+   * Parses a JSON Schema document from a JSON string, or validates an already parsed one.
+   *
+   * Applies the same parsing and error reporting as `jsonParse()`, then checks that the
+   * result is a schema: an object (e.g. `{ "type": "string" }`) or a boolean schema.
+   *
+   * @param schema - The JSON Schema document as a string or parsed value
+   * @param syntax - The syntax of a JSON Schema string (default: 'json')
+   * @returns A ParseResult holding the schema or error information
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.jsonSchemaParse('{"type": "object", "properties": {}}');
+   * // { data: { type: 'object', properties: {} } }
+   *
+   * ConverterUtils.jsonSchemaParse('[1, 2]');
+   * // { data: null, error: JsonParseError.INVALID_SCHEMA, details: 'Parsed value is an array' }
+   * ```
+   */
+  public static jsonSchemaParse(schema: string | unknown | null, syntax: JsonSyntax = 'json'): ParseResult {
+    const result = this.jsonParse(schema, syntax);
+    if (result.error) return result;
+
+    if (typeof result.data === 'boolean' || this.isPlainObject(result.data)) {
+      return result;
+    }
+
+    return {
+      data: null,
+      error: JsonParseError.INVALID_SCHEMA,
+      details: `Parsed value is ${Array.isArray(result.data) ? 'an array' : `of type ${result.data === null ? 'null' : typeof result.data}`}`,
+    };
+  }
+
   /**
    * Formats a property declaration string for TypeScript interfaces.
    *
@@ -530,6 +664,8 @@ export default abstract class ConverterUtils {
    *               - propertyCase: Case transformation for the property name
    *               - readonlyProperties: Whether to add readonly modifier
    *               - optionalProperties: Whether to make the property optional
+   * @param optional Marks this particular property as optional, e.g. when it is
+   *                 missing from some of the merged sample objects.
    * @returns A formatted TypeScript property declaration string ready for interface definition.
    *
    * @example
@@ -556,11 +692,11 @@ export default abstract class ConverterUtils {
    * // returns: '"full-name": string'
    * ```
    */
-  public static formatPropertyValue(property: string, type: string, options: ConvertOptions = {}): string {
-    const name = ConverterUtils.suggestPropertyName(StringUtils.formatName(property, options?.propertyCase ?? 'original'))
+  public static formatPropertyValue(property: string, type: string, options: ConvertOptions = {}, optional: boolean = false): string {
+    const name = FormattingUtils.quoteName(ConverterUtils.suggestPropertyName(StringUtils.formatName(property, options?.propertyCase ?? 'original')), options?.formatting);
     const readonly = options?.readonlyProperties ? 'readonly ' : '';
-    const optional = options?.optionalProperties ? '?' : '';
-    return `${readonly}${name}${optional}: ${type}`;
+    const optionalMark = optional || options?.optionalProperties ? '?' : '';
+    return `${readonly}${name}${optionalMark}: ${type}`;
   }
 
   /**
@@ -772,7 +908,7 @@ export default abstract class ConverterUtils {
      // Common date patterns
      const datePatterns = [
        /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
-       /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/, // ISO 8601
+       /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/, // ISO 8601
        /^\d{2}\/\d{2}\/\d{4}$/, // MM/DD/YYYY
        /^\d{2}-\d{2}-\d{4}$/, // MM-DD-YYYY
      ];
@@ -811,6 +947,54 @@ export default abstract class ConverterUtils {
      return value.every(item => validEnumPattern.test(item));
    }
 
+   /**
+    * Renders an object type declaration as an interface or a type alias.
+    *
+    * @param name - Name of the declaration
+    * @param body - The object type body, e.g. `{\n  id: number;\n}`
+    * @param style - Declaration style (default: 'interface')
+    * @param formatting - Formatting options, a type alias is terminated according to the member separator
+    * @returns The declaration code, without export keyword
+    *
+    * @example
+    * ```typescript
+    * ConverterUtils.toDeclaration('User', '{ id: number; }'); // "interface User { id: number; }"
+    * ConverterUtils.toDeclaration('User', '{ id: number; }', 'type'); // "type User = { id: number; };"
+    * ```
+    */
+   public static toDeclaration(name: string, body: string, style: DeclarationStyle = 'interface', formatting: FormattingOptions = {}): string {
+     return style === 'type' ? FormattingUtils.statement(`type ${name} = ${body}`, formatting) : `interface ${name} ${body}`;
+   }
+
+   /**
+    * Finds the distinct values of strings that look like an enumeration.
+    * Values qualify when they are all strings (nulls are ignored), at least one value
+    * repeats and the number of distinct values does not exceed the threshold, so that
+    * free-form text such as names is never mistaken for an enumeration.
+    *
+    * @param values - Values found for the same property across array elements and samples
+    * @param threshold - Maximum number of distinct values
+    * @returns The distinct values in order of appearance, or null if the values are not enumerable
+    *
+    * @example
+    * ```typescript
+    * ConverterUtils.findEnumValues(['ACTIVE', 'CLOSED', 'ACTIVE'], 10); // ['ACTIVE', 'CLOSED']
+    * ConverterUtils.findEnumValues(['John', 'Jane'], 10); // null (no repeated value)
+    * ConverterUtils.findEnumValues(['a', 'b', 'c', 'a'], 2); // null (too many values)
+    * ```
+    */
+   public static findEnumValues(values: unknown[], threshold: number): string[] | null {
+     const strings = values.filter(value => value !== null);
+
+     if (strings.length < 2 || strings.some(value => typeof value !== 'string')) {
+       return null;
+     }
+
+     const distinct = [...new Set(strings as string[])];
+
+     return distinct.length < strings.length && distinct.length <= threshold ? distinct : null;
+   }
+
    /**
     * Infers the most specific type for a value.
     * Combines multiple type detection methods for comprehensive type inference.
@@ -966,4 +1150,274 @@ export default abstract class ConverterUtils {
      // Check if it's exactly a primitive type (not an array or union)
      return primitiveTypes.has(typeName) && !typeName.includes('[') && !typeName.includes('|');
    }
+
+  /**
+   * Checks whether a value is a plain object literal (e.g. parsed from JSON),
+   * as opposed to arrays, built-in objects or class instances.
+   *
+   * @param value - The value to check
+   * @returns true if the value is a plain object, false otherwise
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.isPlainObject({ a: 1 }); // true
+   * ConverterUtils.isPlainObject([1, 2]); // false
+   * ConverterUtils.isPlainObject(new Date()); // false
+   * ConverterUtils.isPlainObject(null); // false
+   * ```
+   */
+  public static isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+    return typeof value === 'object'
+      && value !== null
+      && !Array.isArray(value)
+      && value.constructor?.name === 'Object';
+  }
+
+  /**
+   * Gathers the properties of several sample objects into a single property map.
+   * Each entry holds every value seen for the key, and is flagged optional when
+   * the key is missing from at least one of the objects.
+   *
+   * Keys are kept in the order they are first encountered.
+   *
+   * @param objects - The sample objects to merge
+   * @param includeSymbols - Whether symbol keys should be collected as well
+   * @returns A map of property keys to their collected values
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.collectProperties([{ id: 1, name: 'a' }, { id: 2 }]);
+   * // Map {
+   * //   'id' => { values: [1, 2], optional: false },
+   * //   'name' => { values: ['a'], optional: true }
+   * // }
+   * ```
+   */
+  public static collectProperties(objects: object[], includeSymbols: boolean = false): Map<PropertyKey, CollectedProperty> {
+    const properties = new Map<PropertyKey, CollectedProperty>();
+
+    for (const obj of objects) {
+      const keys: PropertyKey[] = includeSymbols
+        ? [...Object.getOwnPropertySymbols(obj), ...Object.keys(obj)]
+        : Object.keys(obj);
+
+      for (const key of keys) {
+        const property = properties.get(key) ?? { values: [], optional: false };
+        property.values.push((obj as Record<PropertyKey, unknown>)[key]);
+        properties.set(key, property);
+      }
+    }
+
+    for (const property of properties.values()) {
+      property.optional = property.values.length < objects.length;
+    }
+
+    return properties;
+  }
+
+  /**
+   * Combines several TypeScript type strings into a single union type.
+   * Duplicate members are removed, and `any` absorbs every other member.
+   *
+   * @param types - The type strings to combine
+   * @param fallback - Type to return when no types are provided
+   * @returns The union type string
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.unionTypes(['string', 'number', 'string']); // "string | number"
+   * ConverterUtils.unionTypes(['string']); // "string"
+   * ConverterUtils.unionTypes(['string', 'any']); // "any"
+   * ```
+   */
+  public static unionTypes(types: string[], fallback: string = 'unknown'): string {
+    const unique = [...new Set(types)];
+
+    if (!unique.length) return fallback;
+    if (unique.includes('any')) return 'any';
+
+    return unique.join(' | ');
+  }
+
+  /**
+   * Converts an element type into an array type,
+   * wrapping union and function types in parentheses where required.
+   *
+   * @param type - The element type
+   * @returns The array type string
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.toArrayType('Post'); // "Post[]"
+   * ConverterUtils.toArrayType('Post | string'); // "(Post | string)[]"
+   * ```
+   */
+  public static toArrayType(type: string): string {
+    return this.hasTopLevelOperator(type, [' | ', ' & ', '=>']) ? `(${type})[]` : `${type}[]`;
+  }
+
+  /**
+   * Combines member types into an intersection type,
+   * wrapping union and function members in parentheses.
+   *
+   * @param types - The member types
+   * @returns The intersection type string
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.intersectionTypes(['Base', 'Extra']); // "Base & Extra"
+   * ConverterUtils.intersectionTypes(['string | null', 'Tag']); // "(string | null) & Tag"
+   * ```
+   */
+  public static intersectionTypes(types: string[]): string {
+    return [...new Set(types)]
+      .map(type => this.hasTopLevelOperator(type, [' | ', '=>']) ? `(${type})` : type)
+      .join(' & ');
+  }
+
+  /**
+   * Checks whether a type contains one of the given operators outside of brackets,
+   * e.g. the `|` of `string | null` but not of `Array<string | null>`.
+   *
+   * @param type - The type string
+   * @param operators - The operators to look for, e.g. `' | '` or `'=>'`
+   * @returns true if an operator occurs at the top level
+   */
+  private static hasTopLevelOperator(type: string, operators: string[]): boolean {
+    let depth = 0;
+
+    for (let i = 0; i < type.length; i++) {
+      const char = type[i];
+      if ('{[(<'.includes(char)) depth++;
+      else if ('}])'.includes(char) || (char === '>' && type[i - 1] !== '=')) depth--;
+      else if (depth === 0 && operators.some(operator => type.startsWith(operator, i))) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Splits a JSON key path into its segments, array elements being the `[]` segment.
+   *
+   * @param path - The key path, e.g. `items[].createdAt`
+   * @returns The path segments
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.toPathSegments('items[].createdAt'); // ['items', '[]', 'createdAt']
+   * ConverterUtils.toPathSegments('**.uuid'); // ['**', 'uuid']
+   * ```
+   */
+  public static toPathSegments(path: string): string[] {
+    return path.replace(/\[]/g, '.[]').split('.').filter(Boolean);
+  }
+
+  /**
+   * Joins path segments into a JSON key path, the reverse of `toPathSegments()`.
+   *
+   * @param segments - Segments of the path, `[]` addressing array elements
+   * @returns The JSON key path
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.toPathString(['items', '[]', 'createdAt']); // "items[].createdAt"
+   * ConverterUtils.toPathString([]); // ""
+   * ```
+   */
+  public static toPathString(segments: string[]): string {
+    return segments.join('.').replace(/\.\[]/g, '[]');
+  }
+
+  /**
+   * Creates a conversion warning about the value at a JSON key path.
+   *
+   * @param code - The warning code
+   * @param segments - Segments of the JSON key path of the value
+   * @param details - What happened to the value
+   * @returns The warning, its message naming the issue and the path
+   *
+   * @example
+   * ```typescript
+   * ConverterUtils.createWarning('EMPTY_ARRAY', ['posts', '[]', 'tags'], 'typed as any[]');
+   * // { code: 'EMPTY_ARRAY', message: 'Empty array at "posts[].tags": typed as any[]', path: 'posts[].tags' }
+   * ```
+   */
+  public static createWarning(code: ConversionWarningCode, segments: string[], details: string): ConversionWarning {
+    const issues: Record<ConversionWarningCode, string> = {
+      NAME_COLLISION: 'Name collision',
+      CIRCULAR_REFERENCE: 'Circular reference',
+      EMPTY_ARRAY: 'Empty array',
+    };
+    const path = this.toPathString(segments);
+
+    return { code, message: `${issues[code]} at ${path ? `"${path}"` : 'the root'}: ${details}`, path };
+  }
+
+  /**
+   * Finds the custom type mapped to a property by its JSON key path.
+   *
+   * Keys of the type map can be:
+   * - exact key paths, e.g. `user.id` or `items[].createdAt` (`[]` addresses array elements)
+   * - wildcard key paths, where `*` matches one segment and `**` any number of segments, e.g. `**.uuid`
+   * - plain property names, e.g. `user_id`, matching the property at any depth
+   *
+   * When several keys match, exact paths win over wildcard paths, which win over property names.
+   *
+   * @param typeMap - The custom type mapping
+   * @param path - Segments of the property path, as returned by `toPathSegments()`
+   * @returns The mapped type, or undefined if no key matches
+   *
+   * @example
+   * ```typescript
+   * const typeMap = { 'user.id': 'UserId', '**.createdAt': 'ISODateString', uuid: 'Uuid' };
+   * ConverterUtils.findMappedType(typeMap, ['user', 'id']); // "UserId"
+   * ConverterUtils.findMappedType(typeMap, ['posts', '[]', 'createdAt']); // "ISODateString"
+   * ConverterUtils.findMappedType(typeMap, ['owner', 'uuid']); // "Uuid"
+   * ConverterUtils.findMappedType(typeMap, ['owner', 'id']); // undefined
+   * ```
+   */
+  public static findMappedType(typeMap: Record<string, string> | undefined, path: string[]): string | undefined {
+    if (!typeMap || !path.length) return undefined;
+
+    let mappedType: string | undefined;
+    let bestRank = 0;
+
+    for (const [key, type] of Object.entries(typeMap)) {
+      const pattern = this.toPathSegments(key);
+      let rank = 0;
+
+      if (pattern.length === 1 && !/[*[]/.test(key)) {
+        rank = pattern[0] === path[path.length - 1] ? 1 : 0;
+      } else if (this.matchPathSegments(pattern, path)) {
+        rank = key.includes('*') ? 2 : 3;
+      }
+
+      if (rank > bestRank) {
+        mappedType = type;
+        bestRank = rank;
+      }
+    }
+
+    return mappedType;
+  }
+
+  /**
+   * Matches path segments against a pattern supporting `*` (one segment)
+   * and `**` (any number of segments) wildcards.
+   *
+   * @param pattern - The pattern segments
+   * @param path - The path segments
+   * @returns true if the path matches the pattern
+   */
+  private static matchPathSegments(pattern: string[], path: string[]): boolean {
+    if (!pattern.length) return !path.length;
+
+    const [head, ...rest] = pattern;
+
+    if (head === '**') {
+      return path.some((_, index) => this.matchPathSegments(rest, path.slice(index))) || this.matchPathSegments(rest, []);
+    }
+
+    return path.length > 0 && (head === '*' || head === path[0]) && this.matchPathSegments(rest, path.slice(1));
+  }
 }
@@ -0,0 +1,111 @@
+/**
+ * String format detection utility methods
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+
+// types
+import type { FormatType, StringFormat } from '~/typings/global';
+
+export default abstract class FormatUtils {
+  /**
+   * Patterns of the formats not covered by the date detection, in order of precedence.
+   */
+  private static readonly FORMAT_PATTERNS: [StringFormat, RegExp][] = [
+    ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+    ['ipv4', /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/],
+    ['ipv6', /^(?=.*:)(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}$|^(?=.*::)(?!.*::.*::)(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,6})?::(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,6})?$/i],
+    ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+    ['uri', /^[a-z][a-z\d+.-]*:\/\/\S+$/i],
+    ['numeric', /^-?\d+(\.\d+)?$/],
+  ];
+
+  /**
+   * Names used for the branded type of each format.
+   */
+  private static readonly BRAND_NAMES: Record<StringFormat, string> = {
+    date: 'Date',
+    'date-time': 'DateTime',
+    uuid: 'Uuid',
+    email: 'Email',
+    uri: 'Uri',
+    ipv4: 'IPv4',
+    ipv6: 'IPv6',
+    numeric: 'NumericString',
+  };
+
+  /**
+   * Template literal type of each format.
+   */
+  private static readonly TEMPLATE_TYPES: Record<StringFormat, string> = {
+    date: '`${number}-${number}-${number}`',
+    'date-time': '`${number}-${number}-${number}T${string}`',
+    uuid: '`${string}-${string}-${string}-${string}-${string}`',
+    email: '`${string}@${string}`',
+    uri: '`${string}://${string}`',
+    ipv4: '`${number}.${number}.${number}.${number}`',
+    ipv6: '`${string}:${string}`',
+    numeric: '`${number}`',
+  };
+
+  /**
+   * Detects the format of a string value.
+   *
+   * @param value - The value to check
+   * @returns The detected format, or null if the value is not a string of a known format
+   *
+   * @example
+   * ```typescript
+   * FormatUtils.detectFormat('2025-01-31'); // "date"
+   * FormatUtils.detectFormat('2025-01-31T10:00:00.000Z'); // "date-time"
+   * FormatUtils.detectFormat('123e4567-e89b-12d3-a456-426614174000'); // "uuid"
+   * FormatUtils.detectFormat('https://example.com'); // "uri"
+   * FormatUtils.detectFormat('42'); // "numeric"
+   * FormatUtils.detectFormat('hello'); // null
+   * ```
+   */
+  public static detectFormat(value: unknown): StringFormat | null {
+    if (typeof value !== 'string') return null;
+
+    // Only ISO 8601 dates are detected, and they must denote a valid date
+    if (ConverterUtils.isDateType(value) && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))) {
+      return value.length === 10 ? 'date' : 'date-time';
+    }
+
+    return this.FORMAT_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+  }
+
+  /**
+   * Resolves the TypeScript type emitted for a string format.
+   *
+   * @param format - The detected string format
+   * @param type - The configured format type, a preset or a custom type (default: 'string')
+   * @returns The TypeScript type string
+   *
+   * @example
+   * ```typescript
+   * FormatUtils.toFormatType('uuid', 'branded'); // "string & { __brand: 'Uuid' }"
+   * FormatUtils.toFormatType('date', 'template'); // "`${number}-${number}-${number}`"
+   * FormatUtils.toFormatType('date-time', 'date'); // "Date"
+   * FormatUtils.toFormatType('email', 'EmailAddress'); // "EmailAddress"
+   * ```
+   */
+  public static toFormatType(format: StringFormat, type: FormatType = 'string'): string {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'date':
+        return format === 'date' || format === 'date-time' ? 'Date' : 'string';
+      case 'branded':
+        return `string & { __brand: '${this.BRAND_NAMES[format]}' }`;
+      case 'template':
+        return this.TEMPLATE_TYPES[format];
+      default:
+        return type;
+    }
+  }
+}
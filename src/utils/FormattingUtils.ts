@@ -0,0 +1,183 @@
+/**
+ * Code formatting utility methods
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// types
+import type { FormattingOptions } from '~/typings/global';
+import type { DeclarationNode, TypeNode } from '~/typings/model';
+
+export default abstract class FormattingUtils {
+  /**
+   * Creates the indentation of the given nesting level.
+   *
+   * @param options - The formatting options
+   * @param level - The nesting level (default: 1)
+   * @returns The indentation string, e.g. two spaces per level or one tab per level
+   *
+   * @example
+   * ```typescript
+   * FormattingUtils.indent({ indent: 4 }, 2); // "        "
+   * FormattingUtils.indent({ indent: 'tab' }); // "\t"
+   * ```
+   */
+  public static indent(options: FormattingOptions = {}, level: number = 1): string {
+    return (options.indent === 'tab' ? '\t' : ' '.repeat(options.indent ?? 2)).repeat(level);
+  }
+
+  /**
+   * Quotes a string in the configured quote style, escaping it as needed.
+   *
+   * @param text - The unescaped text
+   * @param options - The formatting options
+   * @returns The quoted string
+   *
+   * @example
+   * ```typescript
+   * FormattingUtils.quote('it\'s'); // "it's"
+   * FormattingUtils.quote('it\'s', { quoteStyle: 'single' }); // 'it\'s'
+   * ```
+   */
+  public static quote(text: string, options: FormattingOptions = {}): string {
+    const quoted = JSON.stringify(text);
+
+    if (options.quoteStyle !== 'single') return quoted;
+
+    return `'${quoted.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, '\\\'')}'`;
+  }
+
+  /**
+   * Re-quotes a property name quoted with double quotes (see `ConverterUtils.suggestPropertyName`)
+   * in the configured quote style. Unquoted names are returned as-is.
+   *
+   * @param name - The property name
+   * @param options - The formatting options
+   * @returns The property name in the configured quote style
+   */
+  public static quoteName(name: string, options: FormattingOptions = {}): string {
+    return name.startsWith('"') ? this.quote(JSON.parse(name), options) : name;
+  }
+
+  /**
+   * Terminates a member of an interface or object type with the configured separator.
+   *
+   * @param member - The member code, e.g. `id: number`
+   * @param options - The formatting options
+   * @returns The separated member, e.g. `id: number;`
+   */
+  public static member(member: string, options: FormattingOptions = {}): string {
+    switch (options.memberSeparator) {
+      case 'comma':
+        return `${member},`;
+      case 'none':
+        return member;
+      default:
+        return `${member};`;
+    }
+  }
+
+  /**
+   * Terminates a statement with a semicolon, unless the `none` member separator
+   * asks for code without semicolons.
+   *
+   * @param statement - The statement code, e.g. `type Id = number`
+   * @param options - The formatting options
+   * @returns The terminated statement
+   */
+  public static statement(statement: string, options: FormattingOptions = {}): string {
+    return options.memberSeparator === 'none' ? statement : `${statement};`;
+  }
+
+  /**
+   * Joins rendered declarations with the configured number of blank lines.
+   *
+   * @param blocks - The rendered declarations
+   * @param options - The formatting options
+   * @returns The joined code
+   */
+  public static join(blocks: string[], options: FormattingOptions = {}): string {
+    return blocks.join('\n'.repeat((options.blankLines ?? 1) + 1));
+  }
+
+  /**
+   * Ends the code with a newline when `trailingNewline` is set.
+   *
+   * @param code - The complete code
+   * @param options - The formatting options
+   * @returns The finished code
+   */
+  public static finish(code: string, options: FormattingOptions = {}): string {
+    return options.trailingNewline ? `${code}\n` : code;
+  }
+
+  /**
+   * Orders declarations according to the `declarationOrder` option.
+   * The first declaration is treated as the root.
+   *
+   * @param declarations - The declarations, root first in order of appearance
+   * @param options - The formatting options
+   * @returns The ordered declarations
+   *
+   * @example
+   * ```typescript
+   * // User { profile: Profile }, Profile { address: Address }, Address { city: string }
+   * FormattingUtils.orderDeclarations(declarations, { declarationOrder: 'alphabetical' }); // User, Address, Profile
+   * FormattingUtils.orderDeclarations(declarations, { declarationOrder: 'dependency' }); // Address, Profile, User
+   * ```
+   */
+  public static orderDeclarations(declarations: DeclarationNode[], options: FormattingOptions = {}): DeclarationNode[] {
+    const [root, ...others] = declarations;
+
+    switch (options.declarationOrder) {
+      case 'alphabetical':
+        return root ? [root, ...others.sort((a, b) => a.name.localeCompare(b.name))] : [];
+      case 'dependency': {
+        const byName = new Map(declarations.map(declaration => [declaration.name, declaration]));
+        const ordered = new Set<DeclarationNode>();
+        const visiting = new Set<DeclarationNode>();
+
+        const visit = (declaration: DeclarationNode): void => {
+          // Declarations on a cycle keep their order of appearance
+          if (ordered.has(declaration) || visiting.has(declaration)) return;
+
+          visiting.add(declaration);
+          this.findReferences(declaration).forEach(name => byName.has(name) && visit(byName.get(name)!));
+          visiting.delete(declaration);
+          ordered.add(declaration);
+        };
+
+        declarations.forEach(visit);
+        return [...ordered];
+      }
+      default:
+        return declarations;
+    }
+  }
+
+  /**
+   * Finds the names of the declarations referenced by a declaration.
+   *
+   * @param declaration - The declaration to inspect
+   * @returns The referenced names, in order of appearance
+   */
+  public static findReferences(declaration: DeclarationNode): string[] {
+    const names: string[] = [];
+    const visit = (type: TypeNode): void => {
+      if (type.kind === 'reference') names.push(type.name);
+      else if (type.kind === 'array') visit(type.element);
+      else if (type.kind === 'tuple') type.elements.forEach(visit);
+      else if (type.kind === 'union' || type.kind === 'intersection') type.types.forEach(visit);
+    };
+
+    if (declaration.kind === 'alias') {
+      visit(declaration.type);
+    } else if (declaration.kind === 'interface') {
+      declaration.properties.forEach(property => visit(property.type));
+      if (declaration.additionalProperties) visit(declaration.additionalProperties);
+    }
+
+    return names;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * TypeScript compiler printer utility methods
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import ts from 'typescript';
+
+// utils
+import FormattingUtils from '~/utils/FormattingUtils';
+
+// types
+import type { FormattingOptions } from '~/typings/global';
+
+export default abstract class PrinterUtils {
+  /**
+   * Number of spaces per indentation level written by the TypeScript printer.
+   */
+  private static readonly PRINTER_INDENT = 4;
+
+  /**
+   * Empty source file the synthesized nodes are printed against.
+   */
+  private static readonly EMPTY_SOURCE = ts.createSourceFile('output.ts', '', ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+
+  /**
+   * Creates a string literal expression quoted according to the formatting options.
+   *
+   * @param text - The unescaped text of the literal
+   * @param options - The formatting options
+   * @returns The string literal node
+   */
+  public static stringLiteral(text: string, options: FormattingOptions = {}): ts.StringLiteral {
+    return ts.factory.createStringLiteral(text, options.quoteStyle === 'single');
+  }
+
+  /**
+   * Parses TypeScript type text (e.g. a custom type mapping or a branded string) into a type node.
+   * String literals are re-quoted according to the formatting options and object type literals
+   * are kept on a single line.
+   *
+   * @param text - The TypeScript type text
+   * @param options - The formatting options
+   * @returns The type node, `unknown` if the text does not describe a type
+   *
+   * @example
+   * ```typescript
+   * PrinterUtils.parseType("string & { __brand: 'Uuid' }"); // prints as: string & { __brand: "Uuid"; }
+   * ```
+   */
+  public static parseType(text: string, options: FormattingOptions = {}): ts.TypeNode {
+    const source = ts.createSourceFile('type.ts', `type T = ${text};`, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+    const [statement] = source.statements;
+
+    if (source.statements.length !== 1 || !ts.isTypeAliasDeclaration(statement)) {
+      return ts.factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword);
+    }
+
+    const synthesize = (context: ts.TransformationContext) => (root: ts.TypeNode): ts.TypeNode => {
+      const visit = (node: ts.Node): ts.Node => {
+        if (ts.isStringLiteral(node)) return this.stringLiteral(node.text, options);
+
+        const visited = ts.visitEachChild(node, visit, context);
+        return ts.isTypeLiteralNode(visited) ? ts.setEmitFlags(visited, ts.EmitFlags.SingleLine) : visited;
+      };
+
+      return visit(root) as ts.TypeNode;
+    };
+
+    const result = ts.transform(statement.type, [synthesize]);
+    const [type] = result.transformed;
+    result.dispose();
+
+    return type;
+  }
+
+  /**
+   * Prints synthesized statements with the TypeScript printer,
+   * separated by the configured number of blank lines.
+   *
+   * @param statements - The statements to print
+   * @param options - The formatting options
+   * @returns The printed code
+   */
+  public static print(statements: ts.Statement[], options: FormattingOptions = {}): string {
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+    return FormattingUtils.join(
+      statements.map(statement => this.format(printer.printNode(ts.EmitHint.Unspecified, statement, this.EMPTY_SOURCE), options)),
+      options,
+    );
+  }
+
+  /**
+   * Applies the member separator and indentation options to printed code.
+   *
+   * @param code - Code printed by the TypeScript printer
+   * @param options - The formatting options
+   * @returns The formatted code
+   */
+  private static format(code: string, options: FormattingOptions): string {
+    const size = this.PRINTER_INDENT;
+
+    return this.separateMembers(code, options)
+      .split('\n')
+      .map(line => {
+        const indented = line.replace(/^(?: {4})+/, spaces => FormattingUtils.indent(options, spaces.length / size));
+        return options.memberSeparator === 'none' ? indented.replace(/;$/, '') : indented;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Replaces the semicolons printed after the members of interfaces and object types
+   * with the configured member separator.
+   *
+   * @param code - Code printed by the TypeScript printer
+   * @param options - The formatting options
+   * @returns The code with the configured member separators
+   */
+  private static separateMembers(code: string, options: FormattingOptions): string {
+    if ((options.memberSeparator ?? 'semicolon') === 'semicolon') return code;
+
+    const source = ts.createSourceFile('output.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const separators: number[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isInterfaceDeclaration(node) || ts.isTypeLiteralNode(node)) {
+        node.members.forEach(member => code[member.end - 1] === ';' && separators.push(member.end - 1));
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(source);
+
+    const separator = FormattingUtils.member('', options);
+    return separators
+      .sort((a, b) => b - a)
+      .reduce((result, position) => result.slice(0, position) + separator + result.slice(position + 1), code);
+  }
+}
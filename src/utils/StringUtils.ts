@@ -55,4 +55,36 @@ export default abstract class StringUtils {
          return name;
      }
    }
+
+  /**
+   * Converts a plural English word into its singular form using simple suffix rules.
+   * Words that don't look plural are returned unchanged.
+   *
+   * @param word - The word to singularize
+   * @returns The singular form of the word
+   *
+   * @example
+   * ```typescript
+   * StringUtils.singularize('posts') // returns 'post'
+   * StringUtils.singularize('Categories') // returns 'Category'
+   * StringUtils.singularize('addresses') // returns 'address'
+   * StringUtils.singularize('status') // returns 'status'
+   * ```
+   */
+  public static singularize(word: string): string {
+    if (!word) return '';
+
+    switch (true) {
+      case /[^aeiou]ies$/i.test(word):
+        return word.slice(0, -3) + (/IES$/.test(word) ? 'Y' : 'y');
+      case /(ss|x|z|ch|sh)es$/i.test(word):
+        return word.slice(0, -2);
+      case /(ss|us|is)$/i.test(word):
+        return word;
+      case /[a-z]s$/i.test(word):
+        return word.slice(0, -1);
+      default:
+        return word;
+    }
+  }
 }
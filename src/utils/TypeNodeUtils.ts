@@ -0,0 +1,222 @@
+/**
+ * Type node utility methods
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+// utils
+import ConverterUtils from '~/utils/ConverterUtils';
+import FormattingUtils from '~/utils/FormattingUtils';
+
+// types
+import type { FormattingOptions, StringFormat } from '~/typings/global';
+import type { KeywordType, TypeNode } from '~/typings/model';
+
+export default abstract class TypeNodeUtils {
+  /**
+   * Keyword types that can be parsed from type strings.
+   */
+  private static readonly KEYWORD_TYPES = new Set<string>([
+    'string', 'number', 'boolean', 'bigint', 'symbol', 'null', 'undefined', 'any', 'unknown', 'object',
+  ]);
+
+  /**
+   * Creates a keyword type node.
+   * @param name - The keyword type name
+   * @returns The keyword type node
+   */
+  public static keyword(name: KeywordType): TypeNode {
+    return { kind: 'keyword', name };
+  }
+
+  /**
+   * Creates a reference type node.
+   * @param name - Name of the referenced declaration
+   * @returns The reference type node
+   */
+  public static reference(name: string): TypeNode {
+    return { kind: 'reference', name };
+  }
+
+  /**
+   * Creates an array type node.
+   * @param element - Type of the array elements
+   * @returns The array type node
+   */
+  public static array(element: TypeNode): TypeNode {
+    return { kind: 'array', element };
+  }
+
+  /**
+   * Creates a literal type node.
+   * @param value - The literal value
+   * @returns The literal type node
+   */
+  public static literal(value: string | number | boolean | null): TypeNode {
+    return value === null ? this.keyword('null') : { kind: 'literal', value };
+  }
+
+  /**
+   * Combines several type nodes into a single union type node.
+   * Nested unions are flattened, duplicate members are removed and `any` absorbs every other member.
+   *
+   * @param types - The type nodes to combine
+   * @param fallback - Type to return when no types are provided
+   * @returns The union type node, or the single member if only one remains
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.union([string, number, string]); // string | number
+   * TypeNodeUtils.union([string]); // string
+   * TypeNodeUtils.union([string, any]); // any
+   * ```
+   */
+  public static union(types: TypeNode[], fallback: TypeNode = TypeNodeUtils.keyword('unknown')): TypeNode {
+    const members = new Map<string, TypeNode>();
+
+    for (const type of types.flatMap(type => type.kind === 'union' ? type.types : [type])) {
+      members.set(this.toString(type), type);
+    }
+
+    if (!members.size) return fallback;
+    if (members.has('any')) return this.keyword('any');
+
+    const unique = [...members.values()];
+    return unique.length === 1 ? unique[0] : { kind: 'union', types: unique };
+  }
+
+  /**
+   * Combines several type nodes into a single intersection type node.
+   * Nested intersections are flattened and duplicate members are removed.
+   *
+   * @param types - The type nodes to combine
+   * @returns The intersection type node, or the single member if only one remains
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.intersection([Base, Extra, Base]); // Base & Extra
+   * TypeNodeUtils.intersection([Base]); // Base
+   * ```
+   */
+  public static intersection(types: TypeNode[]): TypeNode {
+    const members = new Map<string, TypeNode>();
+
+    for (const type of types.flatMap(type => type.kind === 'intersection' ? type.types : [type])) {
+      members.set(this.toString(type), type);
+    }
+
+    const unique = [...members.values()];
+    return unique.length === 1 ? unique[0] : { kind: 'intersection', types: unique };
+  }
+
+  /**
+   * Renders a type node as TypeScript type text.
+   *
+   * @param node - The type node to render
+   * @param formatting - Formatting options, the quote style of string literal types
+   * @returns The TypeScript type string
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.toString({ kind: 'array', element: { kind: 'reference', name: 'Post' } }); // "Post[]"
+   * TypeNodeUtils.toString({ kind: 'literal', value: 'active' }, { quoteStyle: 'single' }); // "'active'"
+   * ```
+   */
+  public static toString(node: TypeNode, formatting: FormattingOptions = {}): string {
+    switch (node.kind) {
+      case 'keyword':
+        return node.name;
+      case 'reference':
+        return node.name;
+      case 'array':
+        return ConverterUtils.toArrayType(this.toString(node.element, formatting));
+      case 'tuple':
+        return `[${node.elements.map(element => this.toString(element, formatting)).join(', ')}]`;
+      case 'union':
+        return node.types.map(type => this.toString(type, formatting)).join(' | ');
+      case 'intersection':
+        return ConverterUtils.intersectionTypes(node.types.map(type => this.toString(type, formatting)));
+      case 'literal':
+        return typeof node.value === 'string' ? FormattingUtils.quote(node.value, formatting) : JSON.stringify(node.value);
+      case 'format':
+      case 'raw':
+        return node.text;
+    }
+  }
+
+  /**
+   * Checks whether a type node accepts null, either as the `null` keyword or as a member of a union.
+   *
+   * @param node - The type node to inspect
+   * @returns true if the type accepts null
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.isNullable(TypeNodeUtils.union([TypeNodeUtils.keyword('string'), TypeNodeUtils.keyword('null')])); // true
+   * ```
+   */
+  public static isNullable(node: TypeNode): boolean {
+    if (node.kind === 'union') return node.types.some(type => this.isNullable(type));
+    return node.kind === 'keyword' && node.name === 'null';
+  }
+
+  /**
+   * Finds the string format described by a type node, looking into arrays and unions.
+   *
+   * @param node - The type node to inspect
+   * @returns The format, or undefined if the node holds no format or several different ones
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.findFormat({ kind: 'array', element: { kind: 'format', format: 'uuid', text: 'string' } }); // "uuid"
+   * ```
+   */
+  public static findFormat(node: TypeNode): StringFormat | undefined {
+    const formats = new Set<StringFormat>();
+    const visit = (type: TypeNode): void => {
+      if (type.kind === 'format') formats.add(type.format);
+      else if (type.kind === 'array') visit(type.element);
+      else if (type.kind === 'union') type.types.forEach(visit);
+    };
+
+    visit(node);
+
+    return formats.size === 1 ? [...formats][0] : undefined;
+  }
+
+  /**
+   * Parses a type string produced by the `ConverterUtils` type detection methods
+   * (e.g. `detectTypeFromArray`) into a type node.
+   * Keywords, arrays and tuples are structured; anything else is kept as raw text.
+   *
+   * @param type - The type string to parse
+   * @returns The parsed type node
+   *
+   * @example
+   * ```typescript
+   * TypeNodeUtils.fromTypeString('number[]'); // { kind: 'array', element: number }
+   * TypeNodeUtils.fromTypeString('[number, string]'); // { kind: 'tuple', elements: [number, string] }
+   * TypeNodeUtils.fromTypeString('Date'); // { kind: 'raw', text: 'Date' }
+   * ```
+   */
+  public static fromTypeString(type: string): TypeNode {
+    const trimmed = type.trim();
+
+    if (this.KEYWORD_TYPES.has(trimmed)) {
+      return this.keyword(trimmed as KeywordType);
+    }
+
+    const tuple = trimmed.match(/^\[([\w$, ]*)]$/);
+    if (tuple) {
+      return { kind: 'tuple', elements: tuple[1].split(',').map(element => this.fromTypeString(element)) };
+    }
+
+    const array = trimmed.match(/^([\w$]+)\[]$/);
+    if (array) {
+      return this.array(this.fromTypeString(array[1]));
+    }
+
+    return { kind: 'raw', text: trimmed };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { EXIT_OUTDATED, checkOutput, toExitCode, toUnifiedDiff } from '../../bin/cli-utils';
+
+/**
+ * Demonstrates the unified diffs printed by `--check` and the exit codes it resolves.
+ */
+
+const lines = (count: number, changed: Record<number, string> = {}) =>
+  Array.from({ length: count }, (_, index) => changed[index + 1] ?? `line ${index + 1}`).join('\n') + '\n';
+
+const tests = [
+  {
+    name: 'Equal texts',
+    convert: () => toUnifiedDiff(lines(5), lines(5), 'user.ts'),
+    expected: '',
+  },
+  {
+    name: 'Changed line with three lines of context',
+    convert: () => toUnifiedDiff(lines(10), lines(10, { 5: 'line five' }), 'user.ts'),
+    expected: [
+      '--- user.ts',
+      '+++ user.ts (generated)',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+line five',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+    ].join('\n'),
+  },
+  {
+    name: 'Separate hunks for distant changes',
+    convert: () => toUnifiedDiff(lines(20), lines(20, { 2: 'line two', 18: 'line eighteen' }), 'user.ts'),
+    expected: [
+      '--- user.ts',
+      '+++ user.ts (generated)',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,6 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      '+line eighteen',
+      ' line 19',
+      ' line 20',
+    ].join('\n'),
+  },
+  {
+    name: 'Nearby changes merged into one hunk',
+    convert: () => toUnifiedDiff(lines(12), lines(12, { 3: 'line three', 9: 'line nine' }), 'user.ts'),
+    expected: [
+      '--- user.ts',
+      '+++ user.ts (generated)',
+      '@@ -1,12 +1,12 @@',
+      ' line 1',
+      ' line 2',
+      '-line 3',
+      '+line three',
+      ' line 4',
+      ' line 5',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '-line 9',
+      '+line nine',
+      ' line 10',
+      ' line 11',
+      ' line 12',
+    ].join('\n'),
+  },
+  {
+    name: 'Added and removed lines',
+    convert: () => toUnifiedDiff('a\nb\nc\n', 'a\nc\nd\n', 'user.ts'),
+    expected: [
+      '--- user.ts',
+      '+++ user.ts (generated)',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '-b',
+      ' c',
+      '+d',
+    ].join('\n'),
+  },
+  {
+    name: 'Missing output file',
+    convert: () => toUnifiedDiff('', 'export interface User {}\n', 'user.ts'),
+    expected: [
+      '--- user.ts',
+      '+++ user.ts (generated)',
+      '@@ -0,0 +1,1 @@',
+      '+export interface User {}',
+    ].join('\n'),
+  },
+  {
+    name: 'Output files compared with the generated code',
+    convert: () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json2ts-check-'));
+      const file = path.join(dir, 'user.ts');
+      fs.writeFileSync(file, 'export interface User {}\n');
+
+      try {
+        return [
+          `up to date: ${checkOutput(file, 'export interface User {}\n')}`,
+          `out of date: ${checkOutput(file, 'export interface User {\n  id: number;\n}\n')?.split('\n').slice(2).join(' | ')}`,
+          `missing: ${checkOutput(path.join(dir, 'post.ts'), 'export interface Post {}\n')?.split('\n').slice(2).join(' | ')}`,
+        ].join('\n');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+    expected: [
+      'up to date: null',
+      'out of date: @@ -1,1 +1,3 @@ | -export interface User {} | +export interface User { | +  id: number; | +}',
+      'missing: @@ -0,0 +1,1 @@ | +export interface Post {}',
+    ].join('\n'),
+  },
+  {
+    name: 'Exit codes',
+    convert: () => [
+      { failed: 0, outdated: 0 },
+      { failed: 0, outdated: 2 },
+      { failed: 1, outdated: 0 },
+      { failed: 1, outdated: 3 },
+    ].map(result => `failed ${result.failed}, outdated ${result.outdated}: ${toExitCode(result)}`).join('\n'),
+    expected: [
+      'failed 0, outdated 0: 0',
+      `failed 0, outdated 2: ${EXIT_OUTDATED}`,
+      'failed 1, outdated 0: 1',
+      'failed 1, outdated 3: 1',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== CHECK MODE TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
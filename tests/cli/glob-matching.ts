@@ -0,0 +1,114 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { expandGlob, matchesGlob, parseGlob } from '../../bin/cli-utils';
+
+/**
+ * Demonstrates the glob patterns (`*`, `?` and `**`) of the `--file`, `--dir` and manifest inputs.
+ */
+
+const matches = (pattern: string, files: string[]) =>
+  files.map(file => `${pattern} ${matchesGlob(file, pattern) ? 'matches' : 'skips'} ${file}`).join('\n');
+
+const tests = [
+  {
+    name: 'Base directory of a pattern',
+    convert: () => ['samples/**/*.json', 'samples/api/*.json5', '*.json', '/data/**', '/*.json', 'samples/user.json']
+      .map(pattern => `${pattern}: ${parseGlob(pattern)?.baseDir ?? 'no wildcards'}`)
+      .join('\n'),
+    expected: [
+      'samples/**/*.json: samples',
+      'samples/api/*.json5: samples/api',
+      '*.json: .',
+      '/data/**: /data',
+      '/*.json: /',
+      'samples/user.json: no wildcards',
+    ].join('\n'),
+  },
+  {
+    name: 'Recursive ** matching any number of directories',
+    convert: () => matches('samples/**/*.json', ['samples/user.json', 'samples/api/v1/user.json', 'samples/user.jsonc', 'other/user.json']),
+    expected: [
+      'samples/**/*.json matches samples/user.json',
+      'samples/**/*.json matches samples/api/v1/user.json',
+      'samples/**/*.json skips samples/user.jsonc',
+      'samples/**/*.json skips other/user.json',
+    ].join('\n'),
+  },
+  {
+    name: 'Single * and ? staying within a directory',
+    convert: () => [
+      matches('samples/*.json', ['samples/user.json', 'samples/api/user.json', 'samples/userXjson']),
+      matches('samples/user?.json', ['samples/user1.json', 'samples/user12.json']),
+    ].join('\n'),
+    expected: [
+      'samples/*.json matches samples/user.json',
+      'samples/*.json skips samples/api/user.json',
+      'samples/*.json skips samples/userXjson',
+      'samples/user?.json matches samples/user1.json',
+      'samples/user?.json skips samples/user12.json',
+    ].join('\n'),
+  },
+  {
+    name: 'Paths without wildcards',
+    convert: () => matches('./samples/user.json', ['samples/user.json', 'samples/post.json']),
+    expected: [
+      './samples/user.json matches samples/user.json',
+      './samples/user.json skips samples/post.json',
+    ].join('\n'),
+  },
+  {
+    name: 'Files expanded from a pattern',
+    convert: () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json2ts-glob-'));
+      for (const file of ['user.json', 'notes.txt', 'api/post.json', 'api/v1/tag.json', 'api/v1/tag.json5']) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), '{}');
+      }
+
+      try {
+        const expand = (pattern: string) => expandGlob(path.join(dir, pattern))
+          .map(file => path.relative(dir, file).split(path.sep).join('/'));
+
+        return [
+          `**/*.json: ${expand('**/*.json').join(', ')}`,
+          `*.json: ${expand('*.json').join(', ')}`,
+          `api/**/*.json5: ${expand('api/**/*.json5').join(', ')}`,
+          `missing/*.json: ${expand('missing/*.json').join(', ')}`,
+        ].join('\n');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+    expected: [
+      '**/*.json: api/post.json, api/v1/tag.json, user.json',
+      '*.json: user.json',
+      'api/**/*.json5: api/v1/tag.json5',
+      'missing/*.json: ',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== GLOB MATCHING TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
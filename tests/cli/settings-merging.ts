@@ -0,0 +1,104 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import { mergeSettings } from '../../bin/cli-utils';
+
+/**
+ * Demonstrates how the CLI merges its settings: the config file, overridden by the
+ * command line flags, overridden by the manifest entries.
+ */
+
+const config = {
+  name: 'Config',
+  export: 'all',
+  format: 'zod',
+  options: {
+    strict: true,
+    propertyCase: 'camel',
+    typeMap: { id: 'UserId', createdAt: 'IsoDate' },
+    formatting: { indent: 4, quoteStyle: 'single' },
+  },
+};
+
+const cli = {
+  name: 'Cli',
+  export: undefined,
+  flat: true,
+  options: {
+    propertyCase: 'pascal',
+    typeMap: { createdAt: 'Date' },
+    formatting: { indent: 'tab' },
+  },
+};
+
+const entry = {
+  name: 'Entry',
+  output: 'types/user.ts',
+  options: {
+    typeMap: { id: 'string' },
+    formatting: { quoteStyle: 'double' },
+  },
+};
+
+const tests = [
+  {
+    name: 'Defaults without any settings',
+    convert: () => JSON.stringify(mergeSettings()),
+    expected: '{"name":"RootObject","export":"root","format":"ts","flat":false,"fromSchema":false,"options":{}}',
+  },
+  {
+    name: 'Config file overridden by the command line flags',
+    convert: () => JSON.stringify(mergeSettings(config, cli), null, 2),
+    expected: JSON.stringify({
+      name: 'Cli',
+      export: 'all',
+      format: 'zod',
+      flat: true,
+      fromSchema: false,
+      options: {
+        strict: true,
+        propertyCase: 'pascal',
+        typeMap: { id: 'UserId', createdAt: 'Date' },
+        formatting: { indent: 'tab', quoteStyle: 'single' },
+      },
+    }, null, 2),
+  },
+  {
+    name: 'Manifest entry overriding both',
+    convert: () => JSON.stringify(mergeSettings(config, cli, entry), null, 2),
+    expected: JSON.stringify({
+      name: 'Entry',
+      export: 'all',
+      format: 'zod',
+      flat: true,
+      fromSchema: false,
+      options: {
+        strict: true,
+        propertyCase: 'pascal',
+        typeMap: { id: 'string', createdAt: 'Date' },
+        formatting: { indent: 'tab', quoteStyle: 'double' },
+      },
+      output: 'types/user.ts',
+    }, null, 2),
+  },
+];
+
+console.log('\n=== SETTINGS MERGING TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,146 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import ConversionError from '../../src/classes/ConversionError';
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToZodConverter from '../../src/classes/JsonToZodConverter';
+
+/**
+ * Demonstrates the structured `ConversionError` of failed conversions,
+ * with error codes, positions and code frames of the input.
+ */
+
+const describe = (error: ConversionError | null): string => error
+  ? [
+    `${error.code} line ${error.line ?? '-'} column ${error.column ?? '-'} offset ${error.offset ?? '-'}${error.sample === undefined ? '' : ` sample ${error.sample}`}`,
+    ...(error.frame ? [error.frame] : []),
+  ].join('\n')
+  : 'no error';
+
+const tests = [
+  {
+    name: 'Position and code frame of a syntax error',
+    convert: () => describe(JsonToTsConverter.tryConvert('{\n  "id": 1,,\n  "name": "John"\n}', 'User').error),
+    expected: [
+      'PARSE_FAILED line 2 column 11 offset 12',
+      '  1 | {',
+      '> 2 |   "id": 1,,',
+      '    |           ^',
+      '  3 |   "name": "John"',
+      '  4 | }',
+    ].join('\n'),
+  },
+  {
+    name: 'Byte offset after multi-byte characters',
+    convert: () => describe(JsonToTsConverter.tryConvert('{"city": "Zürich" "id": 1}').error),
+    expected: [
+      'PARSE_FAILED line 1 column 19 offset 19',
+      '> 1 | {"city": "Zürich" "id": 1}',
+      '    |                   ^',
+    ].join('\n'),
+  },
+  {
+    name: 'Position and code frame of CRLF input',
+    convert: () => describe(JsonToTsConverter.tryConvert('{\r\n  "id": 1,,\r\n  "name": "John"\r\n}', 'User').error),
+    expected: [
+      'PARSE_FAILED line 2 column 11 offset 13',
+      '  1 | {',
+      '> 2 |   "id": 1,,',
+      '    |           ^',
+      '  3 |   "name": "John"',
+      '  4 | }',
+    ].join('\n'),
+  },
+  {
+    name: 'UTF-16 column and UTF-8 byte offset after multi-byte characters on several lines',
+    // "ü" is 2 bytes and 1 UTF-16 code unit, "😀" is 4 bytes and 2 UTF-16 code units (and 2 columns wide)
+    convert: () => describe(JsonToTsConverter.tryConvert('{\r\n  "city": "Zürich",\r\n  "mood": "😀" "id": 1\r\n}', 'User').error),
+    expected: [
+      'PARSE_FAILED line 3 column 16 offset 42',
+      '  1 | {',
+      '  2 |   "city": "Zürich",',
+      '> 3 |   "mood": "😀" "id": 1',
+      '    |                ^',
+      '  4 | }',
+    ].join('\n'),
+  },
+  {
+    name: 'Unexpected end of the input',
+    convert: () => describe(JsonToTsConverter.tryConvert('[1, 2').error),
+    expected: [
+      'PARSE_FAILED line 1 column 6 offset 5',
+      '> 1 | [1, 2',
+      '    |      ^',
+    ].join('\n'),
+  },
+  {
+    name: 'Failing sample of several samples',
+    convert: () => describe(JsonToTsConverter.tryConvertSamples(['{"id": 1}', '\n  id: 2'], 'User').error),
+    expected: [
+      'INVALID_FORMAT line 2 column 3 offset 3 sample 1',
+      '  1 |',
+      '> 2 |   id: 2',
+      '    |   ^',
+    ].join('\n'),
+  },
+  {
+    name: 'Errors without a position',
+    convert: () => [
+      describe(JsonToTsConverter.tryConvertSchema('[1, 2]', 'User').error),
+      describe(JsonToTsConverter.tryConvert('{}', 'user name').error),
+      describe(JsonToTsConverter.tryConvert('{"id": 1}', 'User').error),
+    ].join('\n'),
+    expected: [
+      'INVALID_SCHEMA line - column - offset -',
+      'INVALID_NAME line - column - offset -',
+      'no error',
+    ].join('\n'),
+  },
+  {
+    name: 'Unresolved $ref of a JSON Schema',
+    convert: () => [
+      JsonToTsConverter.tryConvertSchema({ type: 'object', properties: { address: { $ref: '#/$defs/Address' } } }, 'User').error,
+      JsonToTsConverter.tryConvertSchema({ type: 'array', items: { $ref: 'https://example.com/tag.json' } }, 'Tags').error,
+    ].map(error => `${error?.code}: ${error?.message}`).join('\n'),
+    expected: [
+      'UNRESOLVED_REFERENCE: Unresolved $ref "#/$defs/Address" at "address": no such definition in the document',
+      'UNRESOLVED_REFERENCE: Unresolved $ref "https://example.com/tag.json" at "[]": only local references (starting with "#") are supported',
+    ].join('\n'),
+  },
+  {
+    name: 'Thrown with errorMode: throw',
+    convert: () => {
+      try {
+        JsonToZodConverter.convert('{"id": }', 'User', 'root', { errorMode: 'throw' });
+        return 'not thrown';
+      } catch (error) {
+        return `${error instanceof ConversionError} ${describe(error as ConversionError)}`;
+      }
+    },
+    expected: [
+      'true PARSE_FAILED line 1 column 8 offset 7',
+      '> 1 | {"id": }',
+      '    |        ^',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== CONVERSION ERROR TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,156 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import TypeInferrer from '../../src/classes/TypeInferrer';
+import TypeScriptEmitter from '../../src/classes/TypeScriptEmitter';
+import TypeNodeUtils from '../../src/utils/TypeNodeUtils';
+import type { Emitter } from '../../src/typings/emitter';
+import type { TypeNode } from '../../src/typings/model';
+
+/**
+ * Demonstrates a custom emitter (a minimal Kotlin data class emitter)
+ * plugged into a converter through the `emitter` option, and the built-in
+ * TypeScript emitter rendering an inferred model.
+ */
+
+const kotlinType = (node: TypeNode): string => {
+  switch (node.kind) {
+    case 'keyword':
+      return ({ string: 'String', number: 'Double', boolean: 'Boolean' } as Record<string, string>)[node.name] ?? 'Any?';
+    case 'reference':
+      return node.name;
+    case 'array':
+      return `List<${kotlinType(node.element)}>`;
+    default:
+      return 'Any?';
+  }
+};
+
+const kotlinEmitter: Emitter = {
+  emit: ({ declarations }) => declarations
+    .map(declaration => declaration.kind !== 'interface'
+      ? `typealias ${declaration.name} = Any?`
+      : `data class ${declaration.name}(\n${declaration.properties
+        .map(({ key, type, optional }) => `  val ${key}: ${kotlinType(type)}${optional ? '? = null' : ''},`)
+        .join('\n')}\n)`)
+    .join('\n\n'),
+};
+
+const data = {
+  id: 1,
+  tags: ['a'],
+  posts: [{ title: 'Hello' }, { title: 'World', draft: true }],
+};
+
+const createdAt = Symbol('created at');
+
+const tests = [
+  {
+    name: 'Custom emitter through the emitter option',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'root', { emitter: kotlinEmitter }),
+    expected: [
+      'data class User(',
+      '  val id: Double,',
+      '  val tags: List<String>,',
+      '  val posts: List<Post>,',
+      ')',
+      '',
+      'data class Post(',
+      '  val title: String,',
+      '  val draft: Boolean? = null,',
+      ')',
+    ].join('\n'),
+  },
+  {
+    name: 'Built-in TypeScript emitter on an inferred model',
+    convert: () => new TypeScriptEmitter({ readonlyProperties: true }).emit(new TypeInferrer().infer([{ id: 1 }], 'User'), 'root'),
+    expected: [
+      'export interface User {',
+      '  readonly id: number;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Type nodes of the inferred model',
+    convert: () => {
+      const [user] = new TypeInferrer().infer([data], 'User').declarations;
+      return user.kind === 'interface' ? user.properties.map(({ key, type }) => `${key}: ${type.kind} ${TypeNodeUtils.toString(type)}`).join('\n') : '';
+    },
+    expected: [
+      'id: keyword number',
+      'tags: array string[]',
+      'posts: array Post[]',
+    ].join('\n'),
+  },
+  {
+    name: 'Custom emitter of the flattened converter',
+    convert: () => JsonToFlattenedTsConverter.convert(data, 'User', 'root', { emitter: kotlinEmitter }),
+    expected: [
+      'data class User(',
+      '  val id: Double,',
+      '  val tags: List<String>,',
+      '  val posts: List<Post>,',
+      ')',
+      '',
+      'data class Post(',
+      '  val title: String,',
+      '  val draft: Boolean? = null,',
+      ')',
+    ].join('\n'),
+  },
+  {
+    name: 'Built-in TypeScript emitter embedding the declarations inline',
+    convert: () => new TypeScriptEmitter({}, true).emit(new TypeInferrer({ enumStyle: 'enum' }).infer([
+      { [createdAt]: 1, status: 'ACTIVE', items: [{ set: new Set([1]) }] },
+      { [createdAt]: 2, status: 'ACTIVE', items: [] },
+    ], 'Order'), 'root'),
+    expected: [
+      'export interface Order {',
+      '  "created at": number;',
+      '  status: "ACTIVE";',
+      '  items: {',
+      '    set: Set<number>;',
+      '  }[];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Recursive JSON Schema definitions embedded by the flattened converter',
+    convert: () => JsonToFlattenedTsConverter.convertSchema({
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/Node' } },
+      required: ['root'],
+      $defs: { Node: { type: 'object', properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/Node' } } } } },
+    }, 'Tree', 'root', { strict: true }),
+    expected: [
+      'export interface Tree {',
+      '  root: {',
+      '    name?: string;',
+      '    children?: unknown[];',
+      '  };',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== CUSTOM EMITTER TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
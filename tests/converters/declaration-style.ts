@@ -0,0 +1,69 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates `type` alias declarations (`declarationStyle: 'type'`)
+ * emitted instead of `interface` declarations.
+ */
+
+const data = {
+  id: 1,
+  profile: { name: 'John' },
+};
+
+const tests = [
+  {
+    name: 'Type aliases in JsonToTsConverter',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'all', { declarationStyle: 'type' }),
+    expected: [
+      'export type User = {',
+      '  id: number;',
+      '  profile: Profile;',
+      '};',
+      '',
+      'export type Profile = {',
+      '  name: string;',
+      '};',
+    ].join('\n'),
+  },
+  {
+    name: 'Type alias of a primitive root',
+    convert: () => JsonToTsConverter.convert('"text"', 'User', 'root', { declarationStyle: 'type' }),
+    expected: 'export type User = string;',
+  },
+  {
+    name: 'Type alias in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert(data, 'User', 'root', { declarationStyle: 'type' }),
+    expected: [
+      'export type User = {',
+      '  id: number;',
+      '  profile: {',
+      '    name: string;',
+      '  };',
+      '};',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== DECLARATION STYLE TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,158 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToZodConverter from '../../src/classes/JsonToZodConverter';
+
+import type { DetailedConversionResult, Logger } from '../../src/typings/global';
+
+/**
+ * Demonstrates the `convertDetailed()` result object (declarations, warnings, errors, stats)
+ * and the `logger` option replacing the console.
+ */
+
+const describe = ({ code, declarations, warnings, errors, stats }: DetailedConversionResult): string => [
+  `code: ${code === null ? 'null' : `${code.split('\n').length} lines`}`,
+  `declarations: ${declarations.join(', ') || '-'}`,
+  ...warnings.map(warning => `warning: ${warning.code} ${warning.message}`),
+  ...errors.map(error => `error: ${error.code}`),
+  `stats: ${stats.samples} samples, ${stats.declarations} declarations, ${stats.lines} lines`,
+].join('\n');
+
+const circular = (): object => {
+  const node: Record<string, unknown> = { id: 1, child: { name: 'leaf' } };
+  node.self = node;
+  (node.child as Record<string, unknown>).parent = node;
+  return node;
+};
+
+const tests = [
+  {
+    name: 'Declarations and stats of a conversion',
+    convert: () => describe(JsonToTsConverter.convertDetailed('{"id": 1, "author": {"name": "John"}}', 'Post')),
+    expected: [
+      'code: 8 lines',
+      'declarations: Post, Author',
+      'stats: 1 samples, 2 declarations, 8 lines',
+    ].join('\n'),
+  },
+  {
+    name: 'Empty arrays and name collisions',
+    convert: () => describe(JsonToTsConverter.convertDetailed({ tags: [], address: { city: 'Lahore' }, company: { address: { zip: 54000 } } }, 'User', 'root', { strict: true })),
+    expected: [
+      'code: 17 lines',
+      'declarations: User, Company, CompanyAddress, Address',
+      'warning: EMPTY_ARRAY Empty array at "tags": typed as unknown[]',
+      'warning: NAME_COLLISION Name collision at "company.address": "Address" is taken by another shape, named "CompanyAddress"',
+      'stats: 1 samples, 4 declarations, 17 lines',
+    ].join('\n'),
+  },
+  {
+    name: 'Circular references typed as any',
+    convert: () => [
+      JsonToTsConverter.convert(circular(), 'Node'),
+      describe(JsonToTsConverter.convertDetailed(circular(), 'Node')),
+    ].join('\n'),
+    expected: [
+      'export interface Node {',
+      '  id: number;',
+      '  child: Child;',
+      '  self: any;',
+      '}',
+      '',
+      'interface Child {',
+      '  name: string;',
+      '  parent: any;',
+      '}',
+      'code: 10 lines',
+      'declarations: Node, Child',
+      'warning: CIRCULAR_REFERENCE Circular reference at "child.parent": typed as any',
+      'warning: CIRCULAR_REFERENCE Circular reference at "self": typed as any',
+      'stats: 1 samples, 2 declarations, 10 lines',
+    ].join('\n'),
+  },
+  {
+    name: 'Warnings of the flattened converter',
+    convert: () => describe(JsonToFlattenedTsConverter.convertDetailed(Object.assign(circular(), { items: [] }), 'Node')),
+    expected: [
+      'code: 9 lines',
+      'declarations: Node',
+      'warning: CIRCULAR_REFERENCE Circular reference at "child.parent": typed as any',
+      'warning: CIRCULAR_REFERENCE Circular reference at "self": typed as any',
+      'warning: EMPTY_ARRAY Empty array at "items": typed as any[]',
+      'stats: 1 samples, 1 declarations, 9 lines',
+    ].join('\n'),
+  },
+  {
+    name: 'Errors of failed conversions',
+    convert: () => [
+      describe(JsonToZodConverter.convertSamplesDetailed(['{"id": 1}', '{"id": }'], 'User')),
+      describe(JsonToTsConverter.convertSchemaDetailed('{"type": "object"}', 'user name')),
+    ].join('\n'),
+    expected: [
+      'code: null',
+      'declarations: -',
+      'error: PARSE_FAILED',
+      'stats: 2 samples, 0 declarations, 0 lines',
+      'code: null',
+      'declarations: -',
+      'error: INVALID_NAME',
+      'stats: 1 samples, 0 declarations, 0 lines',
+    ].join('\n'),
+  },
+  {
+    name: 'Type alias cycles of a JSON Schema',
+    convert: () => {
+      const schema = { $ref: '#/$defs/A', $defs: { A: { $ref: '#/$defs/B' }, B: { anyOf: [{ type: 'string' }, { $ref: '#/$defs/A' }] } } };
+      const { code, warnings } = JsonToTsConverter.convertSchemaDetailed(schema, 'Root', 'root', { strict: true });
+      return [code, ...warnings.map(warning => `warning: ${warning.code} ${warning.message}`)].join('\n');
+    },
+    expected: [
+      'export type Root = A;',
+      '',
+      'type A = unknown;',
+      '',
+      'type B = string | A;',
+      'warning: CIRCULAR_REFERENCE Circular reference at the root: type alias "A" refers to itself, typed as unknown',
+    ].join('\n'),
+  },
+  {
+    name: 'Logger receiving warnings and errors',
+    convert: () => {
+      const messages: string[] = [];
+      const logger: Logger = {
+        warn: (message, warning) => messages.push(`warn ${warning.code}: ${message}`),
+        error: (message, error) => messages.push(`error ${error.code}: ${message.split(' - ')[0]}`),
+      };
+
+      JsonToTsConverter.convert('{"tags": []}', 'Post', 'root', { logger });
+      JsonToTsConverter.convert('[1, 2', 'Post', 'root', { logger });
+      return messages.join('\n');
+    },
+    expected: [
+      'warn EMPTY_ARRAY: Empty array at "tags": typed as any[]',
+      'error PARSE_FAILED: Conversion failed: JSON parsing failed',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== DETAILED CONVERSION TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,129 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates literal-union and enum inference (`enumStyle`) for string properties
+ * holding a small set of repeated values across array elements.
+ */
+
+const data = {
+  orders: [
+    { id: 1, status: 'ACTIVE', customer: 'John' },
+    { id: 2, status: 'PENDING', customer: 'Jane' },
+    { id: 3, status: 'ACTIVE', customer: 'Jack' },
+    { id: 4, status: 'CLOSED', customer: 'Jill' },
+  ],
+};
+
+const tests = [
+  {
+    name: 'String-literal unions',
+    convert: () => JsonToTsConverter.convert(data, 'RootObject', 'root', { enumStyle: 'union' }),
+    expected: [
+      'export interface RootObject {',
+      '  orders: Order[];',
+      '}',
+      '',
+      'interface Order {',
+      '  id: number;',
+      '  status: "ACTIVE" | "PENDING" | "CLOSED";',
+      '  customer: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'TypeScript enums',
+    convert: () => JsonToTsConverter.convert(data, 'RootObject', 'all', { enumStyle: 'enum' }),
+    expected: [
+      'export interface RootObject {',
+      '  orders: Order[];',
+      '}',
+      '',
+      'export interface Order {',
+      '  id: number;',
+      '  status: Status;',
+      '  customer: string;',
+      '}',
+      '',
+      'export enum Status {',
+      '  Active = "ACTIVE",',
+      '  Pending = "PENDING",',
+      '  Closed = "CLOSED",',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'As const objects',
+    convert: () => JsonToTsConverter.convert(data, 'RootObject', 'all', { enumStyle: 'const' }),
+    expected: [
+      'export interface RootObject {',
+      '  orders: Order[];',
+      '}',
+      '',
+      'export interface Order {',
+      '  id: number;',
+      '  status: Status;',
+      '  customer: string;',
+      '}',
+      '',
+      'export const Status = {',
+      '  Active: "ACTIVE",',
+      '  Pending: "PENDING",',
+      '  Closed: "CLOSED",',
+      '} as const;',
+      '',
+      'export type Status = typeof Status[keyof typeof Status];',
+    ].join('\n'),
+  },
+  {
+    name: 'Cardinality above the threshold',
+    convert: () => JsonToTsConverter.convert(data, 'RootObject', 'root', { enumStyle: 'union', enumThreshold: 2 }),
+    expected: [
+      'export interface RootObject {',
+      '  orders: Order[];',
+      '}',
+      '',
+      'interface Order {',
+      '  id: number;',
+      '  status: string;',
+      '  customer: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Literal unions in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert(data, 'RootObject', 'root', { enumStyle: 'enum' }),
+    expected: [
+      'export interface RootObject {',
+      '  orders: {',
+      '    id: number;',
+      '    status: "ACTIVE" | "PENDING" | "CLOSED";',
+      '    customer: string;',
+      '  }[];',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== ENUM INFERENCE TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
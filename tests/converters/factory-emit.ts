@@ -0,0 +1,105 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates the `factory` emit mode, printing `ts.factory` nodes
+ * with the TypeScript compiler printer and the `formatting` options.
+ */
+
+const data = {
+  id: 1,
+  'say "hi"': 'hello',
+  point: [1, 'x'],
+};
+
+const tests = [
+  {
+    name: 'Escaped property names',
+    convert: () => JsonToTsConverter.convert(data, 'Message', 'root', { emitMode: 'factory' }),
+    expected: [
+      'export interface Message {',
+      '  id: number;',
+      '  "say \\"hi\\"": string;',
+      '  point: [number, string];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Single quotes, tabs and no semicolons',
+    convert: () => JsonToTsConverter.convert(data, 'Message', 'root', {
+      emitMode: 'factory',
+      formatting: { quoteStyle: 'single', indent: 'tab', memberSeparator: 'none' },
+    }),
+    expected: [
+      'export interface Message {',
+      '\tid: number',
+      '\t\'say "hi"\': string',
+      '\tpoint: [number, string]',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Type guards built from factory nodes',
+    convert: () => JsonToTsConverter.convert({ tags: ['a'] }, 'Post', 'root', { emitMode: 'factory', typeGuards: true }),
+    expected: [
+      'export interface Post {',
+      '  tags: string[];',
+      '}',
+      '',
+      'export function isPost(value: unknown): value is Post {',
+      '  if (typeof value !== "object" || value === null) return false;',
+      '  const obj = value as Record<string, unknown>;',
+      '  return Array.isArray(obj.tags) && obj.tags.every(item => typeof item === "string");',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Flattened interface built from factory nodes',
+    convert: () => JsonToFlattenedTsConverter.convert({ user: { 'first-name': 'John' } }, 'Root', 'root', {
+      emitMode: 'factory',
+      formatting: { quoteStyle: 'single', indent: 4 },
+    }),
+    expected: [
+      'export interface Root {',
+      '    user: {',
+      '        \'first-name\': string;',
+      '    };',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Symbol keys of the flattened interface',
+    convert: () => JsonToFlattenedTsConverter.convert({ [Symbol('my key')]: 1, a: { [Symbol('id')]: 'x' } }, 'Root', 'root', { emitMode: 'factory' }),
+    expected: [
+      'export interface Root {',
+      '  "my key": number;',
+      '  a: {',
+      '    id: string;',
+      '  };',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== FACTORY EMIT TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,102 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates the `formatting` options: indentation, member separator,
+ * quote style, trailing newline, blank lines and declaration order.
+ */
+
+const data = {
+  'first-name': 'John',
+  profile: { city: 'Lahore' },
+};
+
+const tests = [
+  {
+    name: 'Tabs, commas and single quotes',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'root', {
+      formatting: { indent: 'tab', memberSeparator: 'comma', quoteStyle: 'single' },
+    }),
+    expected: [
+      'export interface User {',
+      '\t\'first-name\': string,',
+      '\tprofile: Profile,',
+      '}',
+      '',
+      'interface Profile {',
+      '\tcity: string,',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Dependency order, blank lines and trailing newline',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'all', {
+      declarationStyle: 'type',
+      formatting: { memberSeparator: 'none', declarationOrder: 'dependency', blankLines: 0, trailingNewline: true },
+    }),
+    expected: [
+      'export type Profile = {',
+      '  city: string',
+      '}',
+      'export type User = {',
+      '  "first-name": string',
+      '  profile: Profile',
+      '}',
+      '',
+    ].join('\n'),
+  },
+  {
+    name: 'Flattened interface with four spaces',
+    convert: () => JsonToFlattenedTsConverter.convert(data, 'User', 'root', {
+      formatting: { indent: 4, quoteStyle: 'single' },
+    }),
+    expected: [
+      'export interface User {',
+      '    \'first-name\': string;',
+      '    profile: {',
+      '        city: string;',
+      '    };',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Comma separators in the factory emit mode',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'root', {
+      emitMode: 'factory',
+      formatting: { memberSeparator: 'comma', declarationOrder: 'alphabetical' },
+    }),
+    expected: [
+      'export interface User {',
+      '  "first-name": string,',
+      '  profile: Profile,',
+      '}',
+      '',
+      'interface Profile {',
+      '  city: string,',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== FORMATTING TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
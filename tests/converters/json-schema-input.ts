@@ -0,0 +1,147 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates JSON Schema input: interfaces are derived from the schema keywords
+ * and rendered like the interfaces inferred from JSON samples.
+ */
+
+const taggedValue = {
+  type: 'object',
+  properties: {
+    value: { allOf: [{ type: ['string', 'null'] }, { $ref: '#/$defs/Tag' }] },
+  },
+  required: ['value'],
+  $defs: {
+    Tag: { type: 'object', properties: { label: { type: 'string' } }, required: ['label'] },
+  },
+};
+
+const tests = [
+  {
+    name: 'Properties, required, enum, $ref and tuples',
+    schema: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        status: { enum: ['active', 'banned'] },
+        email: { type: ['string', 'null'] },
+        address: { $ref: '#/$defs/address' },
+        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }] },
+      },
+      required: ['id', 'status', 'address'],
+      $defs: {
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      },
+    },
+    options: {},
+    expected: [
+      'export interface RootObject {',
+      '  id: number;',
+      '  status: "active" | "banned";',
+      '  email?: string | null;',
+      '  address: Address;',
+      '  point?: [number, number];',
+      '}',
+      '',
+      'interface Address {',
+      '  city: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'allOf, oneOf and additionalProperties with readonly properties',
+    schema: {
+      type: 'object',
+      properties: {
+        profile: {
+          allOf: [
+            { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+            { type: 'object', properties: { bio: { type: 'string' } } },
+          ],
+        },
+        contact: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+        labels: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+      required: ['profile', 'contact', 'labels'],
+    },
+    options: { readonlyProperties: true },
+    expected: [
+      'export interface RootObject {',
+      '  readonly profile: Profile;',
+      '  readonly contact: string | number;',
+      '  readonly labels: Labels;',
+      '}',
+      '',
+      'interface Labels {',
+      '  readonly [p: string]: string;',
+      '}',
+      '',
+      'interface Profile {',
+      '  readonly name: string;',
+      '  readonly bio?: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'allOf intersection with a union member',
+    schema: taggedValue,
+    expected: [
+      'export interface RootObject {',
+      '  value: (string | null) & Tag;',
+      '}',
+      '',
+      'interface Tag {',
+      '  label: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'allOf intersection embedded by the flattened converter',
+    schema: taggedValue,
+    converter: JsonToFlattenedTsConverter,
+    expected: [
+      'export interface RootObject {',
+      '  value: (string | null) & {',
+      '    label: string;',
+      '  };',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'allOf intersection built from factory nodes by the flattened converter',
+    schema: taggedValue,
+    converter: JsonToFlattenedTsConverter,
+    options: { emitMode: 'factory' as const },
+    expected: [
+      'export interface RootObject {',
+      '  value: (string | null) & {',
+      '    label: string;',
+      '  };',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== JSON SCHEMA INPUT TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = (test.converter ?? JsonToTsConverter).convertSchema(test.schema, 'RootObject', 'root', test.options);
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,108 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToJsonSchemaConverter from '../../src/classes/JsonToJsonSchemaConverter';
+
+/**
+ * Demonstrates the JSON Schema output target: nested objects become `$defs`
+ * entries, tuples use `prefixItems` and optional properties are not required.
+ */
+
+const recursiveSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'RootObject',
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    children: { type: 'array', items: { $ref: '#' } },
+    owner: { $ref: '#/$defs/Owner' },
+  },
+  required: ['name'],
+  $defs: {
+    Owner: {
+      type: 'object',
+      properties: { team: { $ref: '#' } },
+      required: ['team'],
+    },
+  },
+};
+
+const tests = [
+  {
+    name: 'Nested object and array of objects',
+    samples: [{ user: { id: 1 }, posts: [{ title: 'a' }, { title: 'b', draft: true }] }],
+    options: {},
+    expected: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'RootObject',
+      type: 'object',
+      properties: {
+        user: { $ref: '#/$defs/User' },
+        posts: { type: 'array', items: { $ref: '#/$defs/Post' } },
+      },
+      required: ['user', 'posts'],
+      $defs: {
+        Post: {
+          type: 'object',
+          properties: { title: { type: 'string' }, draft: { type: 'boolean' } },
+          required: ['title'],
+        },
+        User: {
+          type: 'object',
+          properties: { id: { type: 'number' } },
+          required: ['id'],
+        },
+      },
+    },
+  },
+  {
+    name: 'Tuples, nullable values and strict mode',
+    samples: [{ point: [1, 'a'], note: 'x' }, { point: [2, 'b'], note: null }],
+    options: { strict: true },
+    expected: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'RootObject',
+      type: 'object',
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'string' }],
+          items: false,
+          minItems: 2,
+        },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['point', 'note'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'Recursive JSON Schema round-trip referring to the root as #',
+    schema: recursiveSchema,
+    options: {},
+    expected: recursiveSchema,
+  },
+];
+
+console.log('\n=== JSON SCHEMA TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = 'schema' in test
+    ? JsonToJsonSchemaConverter.convertSchema(test.schema, 'RootObject', 'root', test.options)
+    : JsonToJsonSchemaConverter.convertSamples(test.samples, 'RootObject', 'root', test.options);
+  const expected = JSON.stringify(test.expected, null, 2);
+  const status = detected === expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,155 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import ConverterUtils from '../../src/utils/ConverterUtils';
+
+/**
+ * Demonstrates the lenient JSONC and JSON5 input syntaxes (`syntax` option),
+ * with the positions of their syntax errors.
+ */
+
+const tsconfig = [
+  '{',
+  '  // Compiler options',
+  '  "compilerOptions": {',
+  '    "strict": true, /* always */',
+  '    "paths": { "~/*": ["src/*",], },',
+  '  },',
+  '}',
+].join('\n');
+
+const json5 = [
+  '// Application settings',
+  '{',
+  '  name: \'json2ts\',',
+  '  port: 0x1F90,',
+  '  ratio: .5,',
+  '  limit: +Infinity,',
+  '  \'quoted-key\': "line \\',
+  'continued",',
+  '  tags: [\'a\', \'b\',],',
+  '}',
+].join('\n');
+
+const describeError = (input: string, syntax: 'jsonc' | 'json5'): string => {
+  const { error } = JsonToTsConverter.tryConvert(input, 'Config', 'root', { syntax });
+  return error ? `${error.code} line ${error.line} column ${error.column}\n${error.frame}` : 'no error';
+};
+
+const tests = [
+  {
+    name: 'JSONC with comments and trailing commas',
+    convert: () => JsonToTsConverter.convert(tsconfig, 'TsConfig', 'root', { syntax: 'jsonc' }),
+    expected: [
+      'export interface TsConfig {',
+      '  compilerOptions: CompilerOptions;',
+      '}',
+      '',
+      'interface CompilerOptions {',
+      '  strict: boolean;',
+      '  paths: Paths;',
+      '}',
+      '',
+      'interface Paths {',
+      '  "~/*": string[];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'JSON5 values',
+    convert: () => JSON.stringify(ConverterUtils.jsonParse(json5, 'json5').data, (key, value) => value === Infinity ? 'Infinity' : value),
+    expected: '{"name":"json2ts","port":8080,"ratio":0.5,"limit":"Infinity","quoted-key":"line continued","tags":["a","b"]}',
+  },
+  {
+    name: 'JSON5 conversion',
+    convert: () => JsonToTsConverter.convert(json5, 'Settings', 'root', { syntax: 'json5' }),
+    expected: [
+      'export interface Settings {',
+      '  name: string;',
+      '  port: number;',
+      '  ratio: number;',
+      '  limit: number;',
+      '  "quoted-key": string;',
+      '  tags: string[];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Positions of JSONC and JSON5 syntax errors',
+    convert: () => [
+      describeError('{\n  // Port\n  "port": 80,,\n}', 'jsonc'),
+      describeError('{\n  port: 80,\n}', 'jsonc'),
+      describeError('{\n  name: \'json2ts\n}', 'json5'),
+      describeError('{ "port": 80 /* unterminated', 'json5'),
+    ].join('\n'),
+    expected: [
+      'PARSE_FAILED line 3 column 14',
+      '  1 | {',
+      '  2 |   // Port',
+      '> 3 |   "port": 80,,',
+      '    |              ^',
+      '  4 | }',
+      'PARSE_FAILED line 2 column 3',
+      '  1 | {',
+      '> 2 |   port: 80,',
+      '    |   ^',
+      '  3 | }',
+      'PARSE_FAILED line 2 column 17',
+      '  1 | {',
+      '> 2 |   name: \'json2ts',
+      '    |                 ^',
+      '  3 | }',
+      'PARSE_FAILED line 1 column 14',
+      '> 1 | { "port": 80 /* unterminated',
+      '    |              ^',
+    ].join('\n'),
+  },
+  {
+    name: 'Strict JSON suggesting a lenient syntax',
+    convert: () => [
+      ConverterUtils.jsonParse('{"port": 80,}').details?.split('\n')[0].replace(/^.*? \(/, '('),
+      ConverterUtils.jsonParse('// Port\n{"port": 80}').details,
+      ConverterUtils.jsonParse('{port: 80}').details?.split('\n')[0].replace(/^.*? \(/, '('),
+      ConverterUtils.jsonParse('{"port": 80').details?.includes('syntax'),
+    ].join('\n'),
+    expected: [
+      '(the input is valid JSONC, parse it with the \'jsonc\' syntax)',
+      'Input starts with \'/\', expected JSON value (the input is valid JSONC, parse it with the \'jsonc\' syntax)',
+      '(the input is valid JSON5, parse it with the \'json5\' syntax)',
+      'false',
+    ].join('\n'),
+  },
+  {
+    name: 'Syntax detected by file extension',
+    convert: () => ['tsconfig.json', '.vscode/settings.jsonc', 'config/app.JSON5', 'data.txt']
+      .map(file => `${file}: ${ConverterUtils.detectSyntax(file)}`)
+      .join('\n'),
+    expected: [
+      'tsconfig.json: json',
+      '.vscode/settings.jsonc: jsonc',
+      'config/app.JSON5: json5',
+      'data.txt: json',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== LENIENT PARSING TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
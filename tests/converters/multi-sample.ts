@@ -0,0 +1,72 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates inferring a single set of interfaces from several JSON samples,
+ * where properties absent from some samples become optional and differing
+ * primitive types become unions.
+ */
+
+const samples = [
+  '{"id": 1, "name": "John", "address": {"city": "Berlin"}}',
+  '{"id": "2", "email": "jane@example.com", "address": {"city": "Paris", "zip": "75001"}}',
+  { id: 3, name: null },
+];
+
+const tests = [
+  {
+    name: 'Nested interfaces',
+    converter: JsonToTsConverter,
+    expected: [
+      'export interface User {',
+      '  id: number | string;',
+      '  name?: string | null;',
+      '  address?: Address;',
+      '  email?: string;',
+      '}',
+      '',
+      'interface Address {',
+      '  city: string;',
+      '  zip?: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Flattened interface',
+    converter: JsonToFlattenedTsConverter,
+    expected: [
+      'export interface User {',
+      '  id: number | string;',
+      '  name?: string | null;',
+      '  address?: {',
+      '    city: string;',
+      '    zip?: string;',
+      '  };',
+      '  email?: string;',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== MULTI-SAMPLE TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.converter.convertSamples(samples, 'User');
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
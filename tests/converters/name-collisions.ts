@@ -0,0 +1,101 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+
+/**
+ * Demonstrates interface name collision handling: identically shaped objects
+ * share one interface, while different shapes get distinct names according
+ * to the configured naming strategy.
+ */
+
+const data = {
+  user: { address: { city: 'Berlin' } },
+  company: { address: { zip: 10115 } },
+  office: { address: { city: 'Paris' } },
+};
+
+const tests = [
+  {
+    name: 'Parent prefix strategy',
+    options: {},
+    expected: [
+      'export interface RootObject {',
+      '  user: User;',
+      '  company: Company;',
+      '  office: Office;',
+      '}',
+      '',
+      'interface Office {',
+      '  address: Address;',
+      '}',
+      '',
+      'interface Company {',
+      '  address: CompanyAddress;',
+      '}',
+      '',
+      'interface CompanyAddress {',
+      '  zip: number;',
+      '}',
+      '',
+      'interface User {',
+      '  address: Address;',
+      '}',
+      '',
+      'interface Address {',
+      '  city: string;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Numeric suffix strategy',
+    options: { namingStrategy: 'numeric' as const },
+    expected: [
+      'export interface RootObject {',
+      '  user: User;',
+      '  company: Company;',
+      '  office: Office;',
+      '}',
+      '',
+      'interface Office {',
+      '  address: Address;',
+      '}',
+      '',
+      'interface Company {',
+      '  address: Address2;',
+      '}',
+      '',
+      'interface Address2 {',
+      '  zip: number;',
+      '}',
+      '',
+      'interface User {',
+      '  address: Address;',
+      '}',
+      '',
+      'interface Address {',
+      '  city: string;',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== NAME COLLISION TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = JsonToTsConverter.convert(data, 'RootObject', 'root', test.options);
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,119 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates how both converters merge every element of an object array
+ * into one element type, marking missing keys optional and combining
+ * conflicting value types into unions.
+ */
+
+const posts = {
+  posts: [
+    { id: 1, title: 'First', tags: ['a'] },
+    { id: 2, body: 'Second', tags: [] },
+    { id: '3', title: null, author: { name: 'John' } },
+  ],
+};
+
+// Test case groups for better organization
+const testGroups = {
+  nested: [
+    {
+      name: 'Merged element interface',
+      data: posts,
+      expected: [
+        'export interface RootObject {',
+        '  posts: Post[];',
+        '}',
+        '',
+        'interface Post {',
+        '  id: number | string;',
+        '  title?: string | null;',
+        '  tags?: string[];',
+        '  body?: string;',
+        '  author?: Author;',
+        '}',
+        '',
+        'interface Author {',
+        '  name: string;',
+        '}',
+      ].join('\n'),
+    },
+    {
+      name: 'Non-plural key',
+      data: { data: [{ a: 1 }, { b: 'x' }] },
+      expected: [
+        'export interface RootObject {',
+        '  data: DataItem[];',
+        '}',
+        '',
+        'interface DataItem {',
+        '  a?: number;',
+        '  b?: string;',
+        '}',
+      ].join('\n'),
+    },
+    {
+      name: 'Objects mixed with primitives',
+      data: { values: [{ a: 1 }, 'text'] },
+      expected: [
+        'export interface RootObject {',
+        '  values: (Value | string)[];',
+        '}',
+        '',
+        'interface Value {',
+        '  a: number;',
+        '}',
+      ].join('\n'),
+    },
+  ],
+
+  flattened: [
+    {
+      name: 'Merged element type',
+      data: posts,
+      expected: [
+        'export interface RootObject {',
+        '  posts: {',
+        '    id: number | string;',
+        '    title?: string | null;',
+        '    tags?: string[];',
+        '    body?: string;',
+        '    author?: {',
+        '      name: string;',
+        '    };',
+        '  }[];',
+        '}',
+      ].join('\n'),
+    },
+  ],
+};
+
+// Process each test group
+Object.entries(testGroups).forEach(([groupName, tests]) => {
+  console.log(`\n=== ${groupName.toUpperCase()} TESTS ===`);
+
+  const converter = groupName === 'flattened' ? JsonToFlattenedTsConverter : JsonToTsConverter;
+
+  tests.forEach((test: any, index: number) => {
+    const detected = converter.convert(test.data);
+    const status = detected === test.expected ? '✓' : '✗';
+
+    console.log(`${index + 1}. ${test.name}`);
+    console.log(`   Data: ${JSON.stringify(test.data)}`);
+    console.log(`   Expected:\n${test.expected}`);
+    console.log(`   Detected:\n${detected} ${status}`);
+
+    if (detected !== test.expected) {
+      console.log(`   ⚠️ Mismatch detected!`);
+    }
+  });
+});
+
+console.log('\nDemonstration completed!');
@@ -0,0 +1,81 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates the type aliases generated for top-level arrays and primitives.
+ */
+
+const users = [
+  { id: 1, name: 'John' },
+  { id: 2, name: 'Jane', admin: true },
+];
+
+const tests = [
+  {
+    name: 'Root array of objects',
+    convert: () => JsonToTsConverter.convert(users, 'Users'),
+    expected: [
+      'export type Users = User[];',
+      '',
+      'interface User {',
+      '  id: number;',
+      '  name: string;',
+      '  admin?: boolean;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Root array of primitives',
+    convert: () => JsonToTsConverter.convert([1, 2, 3], 'RootObject'),
+    expected: 'export type RootObject = number[];',
+  },
+  {
+    name: 'Root primitive',
+    convert: () => JsonToTsConverter.convert('"text"', 'RootObject'),
+    expected: 'export type RootObject = string;',
+  },
+  {
+    name: 'Root null in strict mode',
+    convert: () => JsonToTsConverter.convert('null', 'RootObject', 'root', { strict: true }),
+    expected: 'export type RootObject = null;',
+  },
+  {
+    name: 'Root array in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert(users, 'Users'),
+    expected: [
+      'export type Users = {',
+      '  id: number;',
+      '  name: string;',
+      '  admin?: boolean;',
+      '}[];',
+    ].join('\n'),
+  },
+  {
+    name: 'Root primitive in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert('42', 'RootObject'),
+    expected: 'export type RootObject = number;',
+  },
+];
+
+console.log('\n=== ROOT TYPE TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
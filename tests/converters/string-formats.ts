@@ -0,0 +1,115 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates string format detection (`detectFormats`) and the
+ * configurable types of the detected formats (`formatTypes`).
+ */
+
+const data = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  createdAt: '2025-01-31T10:00:00.000Z',
+  birthday: '1990-05-17',
+  email: 'john@example.com',
+  website: 'https://example.com',
+  ip: '192.168.0.1',
+  price: '42.50',
+  name: 'John',
+  friends: ['0b9f2b5e-7d3c-4a61-9c1e-2f5d8a6b4c3d'],
+};
+
+const tests = [
+  {
+    name: 'Detected formats typed as strings',
+    convert: () => JsonToTsConverter.convert(data, 'User', 'root', { detectFormats: true }),
+    expected: [
+      'export interface User {',
+      '  /** @format uuid */',
+      '  id: string;',
+      '  /** @format date-time */',
+      '  createdAt: string;',
+      '  /** @format date */',
+      '  birthday: string;',
+      '  /** @format email */',
+      '  email: string;',
+      '  /** @format uri */',
+      '  website: string;',
+      '  /** @format ipv4 */',
+      '  ip: string;',
+      '  /** @format numeric */',
+      '  price: string;',
+      '  name: string;',
+      '  /** @format uuid */',
+      '  friends: string[];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Configured format types',
+    convert: () => JsonToTsConverter.convert({ id: data.id, createdAt: data.createdAt, birthday: data.birthday, friends: data.friends }, 'User', 'root', {
+      detectFormats: true,
+      formatTypes: { uuid: 'branded', 'date-time': 'date', date: 'template' },
+    }),
+    expected: [
+      'export interface User {',
+      '  /** @format uuid */',
+      '  id: string & { __brand: \'Uuid\' };',
+      '  /** @format date-time */',
+      '  createdAt: Date;',
+      '  /** @format date */',
+      '  birthday: `${number}-${number}-${number}`;',
+      '  /** @format uuid */',
+      '  friends: (string & { __brand: \'Uuid\' })[];',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Conflicting formats across samples',
+    convert: () => JsonToTsConverter.convertSamples([{ contact: 'john@example.com' }, { contact: 'https://example.com' }, { contact: null }], 'User', 'root', { detectFormats: true }),
+    expected: [
+      'export interface User {',
+      '  contact: string | null;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Detected formats in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert({ user: { id: data.id, email: data.email } }, 'RootObject', 'root', {
+      detectFormats: true,
+      formatTypes: { uuid: 'Uuid' },
+    }),
+    expected: [
+      'export interface RootObject {',
+      '  user: {',
+      '    /** @format uuid */',
+      '    id: Uuid;',
+      '    /** @format email */',
+      '    email: string;',
+      '  };',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== STRING FORMAT TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
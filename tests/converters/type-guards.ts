@@ -0,0 +1,60 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+
+/**
+ * Demonstrates the generated runtime type-guard functions: property presence,
+ * primitive types, arrays, tuples and nested interfaces are checked recursively.
+ */
+
+const samples = [
+  { id: 1, point: [1, 'a'], owner: { name: 'John' }, tags: ['a'] },
+  { id: 2, point: [2, 'b'], owner: { name: 'Jane' } },
+];
+
+const expected = [
+  'export interface RootObject {',
+  '  id: number;',
+  '  point: [number, string];',
+  '  owner: Owner;',
+  '  tags?: string[];',
+  '}',
+  '',
+  'export function isRootObject(value: unknown): value is RootObject {',
+  `  if (typeof value !== 'object' || value === null) return false;`,
+  '  const obj = value as Record<string, unknown>;',
+  `  return typeof obj.id === 'number'`,
+  `    && Array.isArray(obj.point) && obj.point.length === 2 && typeof obj.point[0] === 'number' && typeof obj.point[1] === 'string'`,
+  '    && isOwner(obj.owner)',
+  `    && (obj.tags === undefined || Array.isArray(obj.tags) && obj.tags.every(item => typeof item === 'string'));`,
+  '}',
+  '',
+  'interface Owner {',
+  '  name: string;',
+  '}',
+  '',
+  'function isOwner(value: unknown): value is Owner {',
+  `  if (typeof value !== 'object' || value === null) return false;`,
+  '  const obj = value as Record<string, unknown>;',
+  `  return typeof obj.name === 'string';`,
+  '}',
+].join('\n');
+
+console.log('\n=== TYPE GUARD TESTS ===');
+
+const detected = JsonToTsConverter.convertSamples(samples, 'RootObject', 'root', { typeGuards: true });
+const status = detected === expected ? '✓' : '✗';
+
+console.log('1. Guards for nested objects, tuples and optional arrays');
+console.log(`   Expected:\n${expected}`);
+console.log(`   Detected:\n${detected} ${status}`);
+
+if (detected !== expected) {
+  console.log(`   ⚠️ Mismatch detected!`);
+}
+
+console.log('\nDemonstration completed!');
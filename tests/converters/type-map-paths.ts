@@ -0,0 +1,93 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+import JsonToFlattenedTsConverter from '../../src/classes/JsonToFlattenedTsConverter';
+
+/**
+ * Demonstrates `typeMap` overrides addressed by JSON key path (`user.id`),
+ * array element paths (`items[].createdAt`), wildcards (`**.uuid`) and property names.
+ */
+
+const data = {
+  user: { id: 'u1', uuid: 'a-b', user_id: 7 },
+  items: [{ createdAt: '2025-01-01', owner: { uuid: 'c-d' } }],
+  tags: ['a', 'b', 'c'],
+};
+
+const typeMap = {
+  'user.id': 'UserId',
+  'items[].createdAt': 'ISODateString',
+  '**.uuid': 'Uuid',
+  user_id: 'UserID',
+  'tags[]': 'Tag',
+};
+
+const tests = [
+  {
+    name: 'Key paths in JsonToTsConverter',
+    convert: () => JsonToTsConverter.convert(data, 'RootObject', 'root', { typeMap }),
+    expected: [
+      'export interface RootObject {',
+      '  user: User;',
+      '  items: Item[];',
+      '  tags: Tag[];',
+      '}',
+      '',
+      'interface Item {',
+      '  createdAt: ISODateString;',
+      '  owner: Owner;',
+      '}',
+      '',
+      'interface Owner {',
+      '  uuid: Uuid;',
+      '}',
+      '',
+      'interface User {',
+      '  id: UserId;',
+      '  uuid: Uuid;',
+      '  user_id: UserID;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    name: 'Key paths in JsonToFlattenedTsConverter',
+    convert: () => JsonToFlattenedTsConverter.convert(data, 'RootObject', 'root', { typeMap }),
+    expected: [
+      'export interface RootObject {',
+      '  user: {',
+      '    id: UserId;',
+      '    uuid: Uuid;',
+      '    user_id: UserID;',
+      '  };',
+      '  items: {',
+      '    createdAt: ISODateString;',
+      '    owner: {',
+      '      uuid: Uuid;',
+      '    };',
+      '  }[];',
+      '  tags: Tag[];',
+      '}',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== TYPE MAP KEY PATH TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
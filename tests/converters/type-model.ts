@@ -0,0 +1,79 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToTsConverter from '../../src/classes/JsonToTsConverter';
+
+/**
+ * Demonstrates the serialisable type model returned by `analyze()`,
+ * with property flags and source JSON paths.
+ */
+
+const data = {
+  id: 1,
+  posts: [
+    { title: 'Hello', editor: null },
+    { title: 'World', editor: 'Jane' },
+  ],
+};
+
+const describe = (model: ReturnType<typeof JsonToTsConverter.analyze>): string => (model?.declarations ?? [])
+  .flatMap(declaration => [
+    `${declaration.kind} ${declaration.name} @ "${declaration.path}"`,
+    ...(declaration.kind === 'interface' ? declaration.properties.map(property => [
+      `  ${property.key}: ${property.type.kind}`,
+      property.optional ? 'optional' : '',
+      property.readonly ? 'readonly' : '',
+      property.nullable ? 'nullable' : '',
+      `@ "${property.path}"`,
+    ].filter(Boolean).join(' ')) : []),
+  ])
+  .join('\n');
+
+const tests = [
+  {
+    name: 'Declarations and property flags',
+    convert: () => describe(JsonToTsConverter.analyze(data, 'Blog', 'root', { readonlyProperties: true })),
+    expected: [
+      'interface Blog @ ""',
+      '  id: keyword readonly @ "id"',
+      '  posts: array readonly @ "posts"',
+      'interface Post @ "posts[]"',
+      '  title: keyword readonly @ "posts[].title"',
+      '  editor: union readonly nullable @ "posts[].editor"',
+    ].join('\n'),
+  },
+  {
+    name: 'Model of several samples',
+    convert: () => describe(JsonToTsConverter.analyzeSamples([{ id: 1 }, { id: 2, name: 'John' }], 'User')),
+    expected: [
+      'interface User @ ""',
+      '  id: keyword @ "id"',
+      '  name: keyword optional @ "name"',
+    ].join('\n'),
+  },
+  {
+    name: 'Serialised model of a root array',
+    convert: () => JSON.stringify(JsonToTsConverter.analyze([1, 2], 'Ids')),
+    expected: '{"rootName":"Ids","declarations":[{"kind":"alias","name":"Ids","type":{"kind":"array","element":{"kind":"keyword","name":"number"}},"exported":true,"path":""}]}',
+  },
+];
+
+console.log('\n=== TYPE MODEL TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = test.convert();
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
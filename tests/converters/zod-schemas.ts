@@ -0,0 +1,147 @@
+/**
+ * @author Junaid Atari <mj.atari@gmail.com>
+ * @copyright 2025 Junaid Atari
+ * @see https://github.com/blacksmoke26
+ */
+
+import JsonToZodConverter from '../../src/classes/JsonToZodConverter';
+
+/**
+ * Demonstrates the Zod output target: one `z.object()` schema per interface,
+ * declared before its dependents, plus the inferred type of every schema.
+ */
+
+const tests = [
+  {
+    name: 'Nested objects, tuples and nullable values',
+    samples: [{ point: [1, 'a'], owner: { name: 'John' }, note: 'x' }, { point: [2, 'b'], owner: { name: 'Jane' }, note: null }],
+    options: { strict: true },
+    expected: [
+      `import { z } from 'zod';`,
+      '',
+      'const OwnerSchema = z.object({',
+      '  name: z.string(),',
+      '});',
+      '',
+      'type Owner = z.infer<typeof OwnerSchema>;',
+      '',
+      'export const RootObjectSchema = z.object({',
+      '  point: z.tuple([z.number(), z.string()]),',
+      '  owner: OwnerSchema,',
+      '  note: z.string().nullable(),',
+      '});',
+      '',
+      'export type RootObject = z.infer<typeof RootObjectSchema>;',
+    ].join('\n'),
+  },
+  {
+    name: 'Optional, readonly and camelCase properties',
+    samples: [{ user_id: 1, tags: ['a'] }, { user_id: 2 }],
+    options: { readonlyProperties: true, propertyCase: 'camel' as const },
+    expected: [
+      `import { z } from 'zod';`,
+      '',
+      'export const RootObjectSchema = z.object({',
+      '  user_id: z.number(),',
+      '  tags: z.array(z.string()).optional(),',
+      '}).transform(value => ({',
+      '  userId: value.user_id,',
+      '  tags: value.tags,',
+      '})).readonly();',
+      '',
+      'export type RootObject = z.infer<typeof RootObjectSchema>;',
+    ].join('\n'),
+  },
+  {
+    name: 'Recursive JSON Schema with written out types',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#' } },
+        owner: { $ref: '#/$defs/Owner' },
+      },
+      required: ['name'],
+      $defs: {
+        Owner: { type: 'object', properties: { team: { $ref: '#' } }, required: ['team'] },
+      },
+    },
+    options: {},
+    expected: [
+      `import { z } from 'zod';`,
+      '',
+      'type Owner = {',
+      '  team: RootObject;',
+      '};',
+      '',
+      'const OwnerSchema: z.ZodType<Owner> = z.object({',
+      '  team: z.lazy(() => RootObjectSchema),',
+      '});',
+      '',
+      'export type RootObject = {',
+      '  name: string;',
+      '  children?: RootObject[];',
+      '  owner?: Owner;',
+      '};',
+      '',
+      'export const RootObjectSchema: z.ZodType<RootObject> = z.object({',
+      '  name: z.string(),',
+      '  children: z.array(z.lazy(() => RootObjectSchema)).optional(),',
+      '  owner: OwnerSchema.optional(),',
+      '});',
+    ].join('\n'),
+  },
+  {
+    name: 'Recursive type alias and renamed keys',
+    schema: {
+      type: 'object',
+      properties: {
+        child_nodes: { type: 'array', items: { $ref: '#' } },
+        tree: { $ref: '#/$defs/Tree' },
+      },
+      $defs: {
+        Tree: { anyOf: [{ type: 'string' }, { type: 'array', items: { $ref: '#/$defs/Tree' } }] },
+      },
+    },
+    options: { propertyCase: 'camel' as const },
+    expected: [
+      `import { z } from 'zod';`,
+      '',
+      'type Tree = string | Tree[];',
+      '',
+      'const TreeSchema: z.ZodType<Tree, z.ZodTypeDef, unknown> = z.union([z.string(), z.array(z.lazy(() => TreeSchema))]);',
+      '',
+      'export type RootObject = {',
+      '  childNodes?: RootObject[];',
+      '  tree?: Tree;',
+      '};',
+      '',
+      'export const RootObjectSchema: z.ZodType<RootObject, z.ZodTypeDef, unknown> = z.object({',
+      '  child_nodes: z.array(z.lazy(() => RootObjectSchema)).optional(),',
+      '  tree: TreeSchema.optional(),',
+      '}).transform(value => ({',
+      '  childNodes: value.child_nodes,',
+      '  tree: value.tree,',
+      '}));',
+    ].join('\n'),
+  },
+];
+
+console.log('\n=== ZOD SCHEMA TESTS ===');
+
+tests.forEach((test, index) => {
+  const detected = 'schema' in test
+    ? JsonToZodConverter.convertSchema(test.schema, 'RootObject', 'root', test.options)
+    : JsonToZodConverter.convertSamples(test.samples, 'RootObject', 'root', test.options);
+  const status = detected === test.expected ? '✓' : '✗';
+
+  console.log(`${index + 1}. ${test.name}`);
+  console.log(`   Expected:\n${test.expected}`);
+  console.log(`   Detected:\n${detected} ${status}`);
+
+  if (detected !== test.expected) {
+    console.log(`   ⚠️ Mismatch detected!`);
+  }
+});
+
+console.log('\nDemonstration completed!');
@@ -9,3 +9,25 @@ import './converter-utils/detect-type-from-array';
 import './converter-utils/suggest-interface-name';
 import './converter-utils/suggest-property-name';
 import './converter-utils/to-interface-name';
+import './converters/object-array-merging';
+import './converters/multi-sample';
+import './converters/name-collisions';
+import './converters/json-schema';
+import './converters/zod-schemas';
+import './converters/type-guards';
+import './converters/json-schema-input';
+import './converters/type-map-paths';
+import './converters/string-formats';
+import './converters/enum-inference';
+import './converters/declaration-style';
+import './converters/root-types';
+import './converters/custom-emitter';
+import './converters/type-model';
+import './converters/factory-emit';
+import './converters/formatting';
+import './converters/conversion-errors';
+import './converters/detailed-conversion';
+import './converters/lenient-parsing';
+import './cli/check-mode';
+import './cli/glob-matching';
+import './cli/settings-merging';